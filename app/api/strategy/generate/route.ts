@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { hasSource, listIndicators } from "@/lib/indicator-registry";
 import { normaliseDsl, type StrategyDSL } from "@/lib/strategy-engine";
 
 export const runtime = "nodejs";
@@ -7,6 +8,18 @@ export const dynamic = "force-dynamic";
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
 
+/** One line per registered indicator: name, parameters with defaults, outputs and description. */
+function indicatorCatalogue(): string {
+  return listIndicators()
+    .map((definition) => {
+      const params = Object.entries(definition.params).map(([name, spec]) => `"${name}": ${spec.default}`);
+      if (hasSource(definition)) params.push(`"source": "close"`);
+      const outputs = definition.outputs.length > 1 ? `, "output": ${definition.outputs.map((o) => `"${o}"`).join("|")}` : "";
+      return `     - "${definition.name}" { ${params.join(", ")}${outputs} }: ${definition.description}`;
+    })
+    .join("\n");
+}
+
 const DSL_PROMPT_TEMPLATE = `You are an AI trading strategy generator. Convert the user's strategy description into a Strategy DSL JSON.
 
 The DSL format supports these rule types:
@@ -23,9 +36,45 @@ The DSL format supports these rule types:
    - params: { period?: number, low?: number, high?: number, enter?: "long"|"short", exit?: "long"|"short" }
    - Example: { "type": "rsi_threshold", "params": { "period": 14, "low": 30, "high": 70, "enter": "long", "exit": "long" } }
 
+4. "compare" - Generic comparison: { "left": operand, "op": "crossesAbove"|"crossesBelow"|">"|"<"|"between", "right": operand }
+   - An operand is a number, a price field ("open"|"high"|"low"|"close"|"volume"|"vwap") or an indicator
+     { "ind": name, ...params, "output"?: line }. Indicators, with their default parameters (omit any to use the default):
+${indicatorCatalogue()}
+   - For "between", "right" is { "lower": operand, "upper": operand }.
+   - In "rules" a comparison only enters unless it has "signal": "exit"; add "side": "short" for shorts.
+   - Example (close crosses above the 50-day SMA): { "type": "compare", "left": "close", "op": "crossesAbove", "right": { "ind": "sma", "period": 50 } }
+
+Entries with "bear", "short" or "fast_below" open short positions; exits with "bull", "short" or "fast_above" cover shorts.
+Set the top-level "direction" to "long", "short" or "both" ("both" flips between long and short on opposite signals).
+To combine conditions, add top-level "entry" and/or "exit" condition trees. A tree is a rule object or a group
+{ "all": [...] }, { "any": [...] } or { "not": {...} }; entry trees use each rule's entry signal, exit trees its exit signal.
+   - Example (MACD bullish cross AND RSI below 50): "entry": { "all": [ { "type": "macd_cross", "params": { "enter": "bull" } }, { "type": "rsi_threshold", "params": { "period": 14, "low": 50, "enter": "long" } } ] }
+When "entry"/"exit" are given they replace the entry/exit signals of "rules"; otherwise every rule in "rules" is OR-ed together.
+Any rule may add "timeframe": "weekly"|"monthly" to be evaluated on weekly or monthly bars (only completed periods are used).
+   - Example (daily RSI dip while the weekly close is above its 20-week SMA): "entry": { "all": [ { "type": "rsi_threshold", "params": { "period": 14, "low": 30, "enter": "long" } }, { "type": "compare", "left": "close", "op": ">", "right": { "ind": "sma", "period": 20 }, "timeframe": "weekly" } ] }
+Price-based exits go in an optional top-level "risk" object (percentages of the entry price):
+   { "stopLossPct"?: number, "takeProfitPct"?: number, "trailingStopPct"?: number, "atrStop"?: { "period": number, "multiple": number } }
+Position size goes in an optional top-level "sizing" object (default: all equity in each trade), one of:
+   { "type": "fixed_fraction", "fraction": 0.5 } | { "type": "fixed_shares", "shares": 100 }
+   | { "type": "volatility", "measure": "atr"|"stdev", "period": 20, "riskPct": 1, "maxFraction": 1 }
+   | { "type": "kelly", "multiplier": 0.5, "maxFraction": 0.25, "minTrades": 10, "initialFraction": 0.05 }
+To pyramid or scale out, add a top-level "scaling" object: { "maxUnits": 3, "exitFractions": [0.5] } adds a unit on each
+repeated entry signal up to 3 units, and closes half the position on the first exit signal and the rest on the next.
+Bar-count limits go in an optional top-level "holding" object: { "maxBars"?: number (exit after N bars),
+"minBars"?: number (ignore exit signals before M bars), "cooldownBars"?: number (wait K bars after an exit before re-entering) }.
+Calendar rules that only block new entries (exits are unaffected) go in an optional top-level "filters" array:
+   { "type": "day_of_week", "days": ["mon", "fri"] } | { "type": "month", "months": [11, 12, 1] }
+   | { "type": "date_window", "mode": "exclude"|"include", "windows": [{ "from": "2024-04-20", "to": "2024-05-10" }] }
+   | { "type": "before_date", "dates": ["2024-11-05"], "days": 5 } (no entries in the 5 days before each date)
+   | { "type": "regime", "ticker": "SPY", "indicator": "sma"|"ema", "period": 200, "condition": "above"|"below" }
+     (only enter while SPY closes above/below its 200-day moving average)
+Signals are evaluated on each bar's close. The optional top-level "fill" sets where the resulting orders execute:
+"next_open" (default), "next_vwap", "next_close" or "same_close". Only use "same_close" if the user explicitly asks for it.
+
 Respond ONLY with a valid JSON object in this format:
 {
   "name": "Strategy Name",
+  "direction": "long",
   "rules": [
     { "type": "rule_type", "params": { ... } }
   ]
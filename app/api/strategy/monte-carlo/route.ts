@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { runMonteCarlo, type MonteCarloMethod } from "@/lib/monte-carlo";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const METHODS: MonteCarloMethod[] = ["shuffle", "resample", "returns"];
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const trades = Array.isArray(body.trades) ? body.trades.filter((t: any) => Number.isFinite(t?.pnl)) : [];
+    const equity = Array.isArray(body.equity) ? body.equity.map(Number).filter(Number.isFinite) : [];
+    const method: MonteCarloMethod = METHODS.includes(body.method) ? body.method : "shuffle";
+
+    if (method === "returns" ? equity.length < 2 : trades.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: method === "returns" ? "equity[] required" : "trades[] with pnl required" },
+        { status: 400 },
+      );
+    }
+
+    const result = runMonteCarlo(
+      { trades, equity },
+      {
+        method,
+        iterations: Number(body.iterations) || undefined,
+        seed: Number.isFinite(Number(body.seed)) ? Number(body.seed) : undefined,
+        ruinThresholdPct: Number(body.ruinThresholdPct) || undefined,
+      },
+    );
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("/api/strategy/monte-carlo", error);
+    return NextResponse.json({ ok: false, error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
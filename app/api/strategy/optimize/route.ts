@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { normalisePriceMode } from "@/lib/corporate-actions";
+import { normaliseFilters, regimeTickers } from "@/lib/filters";
+import { OBJECTIVES, runParameterSweep, type Objective } from "@/lib/optimizer";
+import { readAdjustedRange, readReferenceSeries } from "@/lib/safeParquet";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const ticker = typeof body.ticker === "string" ? body.ticker.trim().toUpperCase() : "";
+    if (!ticker) {
+      return NextResponse.json({ ok: false, error: "ticker required" }, { status: 400 });
+    }
+    if (!body.dsl || typeof body.dsl !== "object") {
+      return NextResponse.json({ ok: false, error: "dsl with parameter ranges required" }, { status: 400 });
+    }
+
+    const objective: Objective = OBJECTIVES.includes(body.objective) ? body.objective : "sharpe";
+    const startDate = body.startDate ?? "2020-01-01";
+    const endDate = body.endDate ?? new Date().toISOString().slice(0, 10);
+
+    // Same price basis as /api/strategy/run, so optimised parameters carry over to a run.
+    const { rows, prices } = await readAdjustedRange(ticker, startDate, endDate, normalisePriceMode(body.prices));
+    if (!rows.length) {
+      return NextResponse.json({ ok: false, error: `${ticker}: no data in range` }, { status: 404 });
+    }
+
+    const regime = regimeTickers(normaliseFilters(body.dsl.filters));
+    const references = await readReferenceSeries(regime, endDate);
+    const missing = regime.filter((ref) => !references[ref]);
+    if (missing.length) {
+      return NextResponse.json({ ok: false, error: `regime ${missing.join(", ")}: no data in range` }, { status: 404 });
+    }
+
+    let sweep;
+    try {
+      sweep = runParameterSweep(body.dsl, rows, {
+        objective,
+        maxCombinations: Number(body.maxCombinations) || undefined,
+        top: Number(body.top) || 50,
+        references,
+      });
+    } catch (error) {
+      return NextResponse.json({ ok: false, error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      ticker,
+      startDate,
+      endDate,
+      prices,
+      objective: sweep.objective,
+      combinations: sweep.combinations,
+      dimensions: sweep.dimensions,
+      results: sweep.results.map(({ params, score, stats }) => ({ params, score, stats })),
+    });
+  } catch (error) {
+    console.error("/api/strategy/optimize", error);
+    return NextResponse.json({ ok: false, error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
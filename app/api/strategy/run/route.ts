@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { normaliseDsl, runBacktest, type StrategyDSL } from "@/lib/strategy-engine";
-import { readTickerRange } from "@/lib/safeParquet";
+import { benchmarkComparisons, indexComparison } from "@/lib/benchmark";
+import { normalisePriceMode, type PriceMode } from "@/lib/corporate-actions";
+import { validateDsl } from "@/lib/dsl-schema";
+import { regimeTickers } from "@/lib/filters";
+import { DEFAULT_FILL_POLICY, normaliseDsl, runBacktest, type FillPolicy, type StrategyDSL } from "@/lib/strategy-engine";
+import { normalisePairs, runPairsBacktest, type PairsResult } from "@/lib/pairs";
+import { normaliseAllocation, runPortfolioBacktest, type PortfolioResult } from "@/lib/portfolio";
+import { normaliseRotation, runRotationBacktest, type RotationResult } from "@/lib/rotation";
+import { loadManifest, readAdjustedRange, readReferenceSeries, readTickerRange } from "@/lib/safeParquet";
+import type { Row } from "@/types/row";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 const DEFAULT_DSL: StrategyDSL = {
   name: "SMA Crossover",
+  fill: "next_open",
   rules: [
     { type: "sma_cross", params: { fast: 10, slow: 30, enter: "fast_above", exit: "fast_below" } },
   ],
@@ -37,22 +46,97 @@ async function runPythonStrategy(code: string, ticker: string, rows: any[]) {
   };
 }
 
-function summariseDslResults(perTicker: Array<{ ticker: string; stats?: any }>, startDate: string, endDate: string) {
+function summariseDslResults(
+  perTicker: Array<{ ticker: string; stats?: any }>,
+  fill: FillPolicy,
+  prices: PriceMode,
+  startDate: string,
+  endDate: string,
+) {
   const withStats = perTicker.filter((item) => item.stats);
   const totalReturn = withStats.reduce((sum, item) => sum + item.stats.totalReturnPct, 0);
   const totalTrades = withStats.reduce((sum, item) => sum + item.stats.trades, 0);
   const avgReturn = withStats.length ? totalReturn / withStats.length : 0;
+  const avgSharpe = withStats.length
+    ? withStats.reduce((sum, item) => sum + item.stats.sharpe, 0) / withStats.length
+    : 0;
+  const worstDrawdownPct = withStats.reduce((worst, item) => Math.max(worst, item.stats.maxDrawdownPct), 0);
   return {
     mode: "dsl",
+    fill,
+    prices,
     requestedTickers: perTicker.length,
     processedTickers: withStats.length,
     avgReturnPct: avgReturn,
+    avgSharpe,
+    worstDrawdownPct,
     totalTrades,
     startDate,
     endDate,
   };
 }
 
+function summarisePortfolio(
+  portfolio: PortfolioResult,
+  requestedTickers: number,
+  prices: PriceMode,
+  startDate: string,
+  endDate: string,
+) {
+  return {
+    mode: "portfolio",
+    fill: portfolio.fill,
+    prices,
+    requestedTickers,
+    processedTickers: portfolio.contributions.length,
+    totalReturnPct: portfolio.stats.totalReturnPct,
+    sharpe: portfolio.stats.sharpe,
+    maxDrawdownPct: portfolio.stats.maxDrawdownPct,
+    totalTrades: portfolio.stats.trades,
+    startDate,
+    endDate,
+  };
+}
+
+function summarisePairs(pairs: PairsResult, prices: PriceMode, startDate: string, endDate: string) {
+  return {
+    mode: "pairs",
+    fill: pairs.fill,
+    prices,
+    tickers: pairs.tickers,
+    hedge: pairs.hedge,
+    totalReturnPct: pairs.stats.totalReturnPct,
+    sharpe: pairs.stats.sharpe,
+    maxDrawdownPct: pairs.stats.maxDrawdownPct,
+    totalTrades: pairs.stats.trades,
+    startDate,
+    endDate,
+  };
+}
+
+function summariseRotation(
+  rotation: RotationResult,
+  requestedTickers: number,
+  prices: PriceMode,
+  startDate: string,
+  endDate: string,
+) {
+  return {
+    mode: "rotation",
+    fill: rotation.fill,
+    prices,
+    frequency: rotation.frequency,
+    metric: rotation.metric,
+    requestedTickers,
+    totalReturnPct: rotation.stats.totalReturnPct,
+    sharpe: rotation.stats.sharpe,
+    maxDrawdownPct: rotation.stats.maxDrawdownPct,
+    rebalances: rotation.stats.rebalances,
+    startDate,
+    endDate,
+  };
+}
+
 function summariseMlResults(perTicker: Array<{ ticker: string; result?: any }>, startDate: string, endDate: string) {
   return {
     mode: "ml",
@@ -66,17 +150,38 @@ function summariseMlResults(perTicker: Array<{ ticker: string; result?: any }>,
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json().catch(() => ({}));
-    const tickers = uniqueTickers(body.tickers ?? body.ticker);
+    const mode = ["ml", "pairs", "rotation"].includes(body.mode) ? body.mode : "dsl";
+    let tickers = uniqueTickers(body.tickers ?? body.ticker);
+    // Rotation ranks the whole manifest universe unless it is given a narrower one.
+    if (!tickers.length && mode === "rotation") {
+      tickers = (await loadManifest()).tickers.map((item) => item.ticker);
+    }
     if (!tickers.length) {
       return NextResponse.json({ ok: false, error: "tickers[] required" }, { status: 400 });
     }
 
     const startDate = body.startDate ?? "2020-01-01";
     const endDate = body.endDate ?? new Date().toISOString().slice(0, 10);
-    const mode = body.mode === "ml" ? "ml" : "dsl";
     const logs: string[] = [];
     const perTicker: any[] = [];
 
+    // Costs may be supplied as a run option so generated strategies can be evaluated under different cost assumptions.
+    const candidate = body.dsl || body.costs
+      ? { ...(body.dsl ?? DEFAULT_DSL), ...(body.costs ? { costs: body.costs } : {}) }
+      : undefined;
+    if (mode === "dsl" && candidate) {
+      // Strict runs refuse a DSL normaliseDsl would have to coerce or drop parts of; lenient runs log what it changes.
+      const { valid, errors, warnings } = validateDsl(candidate, { strict: body.strict === true });
+      if (body.strict === true && !valid) {
+        const [first] = errors;
+        return NextResponse.json(
+          { ok: false, error: `Invalid DSL at ${first.path || "dsl"}: ${first.message}`, errors, warnings },
+          { status: 400 },
+        );
+      }
+      for (const issue of [...errors, ...warnings]) logs.push(`dsl ${issue.path || "(root)"}: ${issue.message}`);
+    }
+
     if (mode === "ml") {
       const code = body.code;
       if (!code || typeof code !== "string") {
@@ -109,19 +214,113 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: true, summary, perTicker, logs });
     }
 
-    const dsl: StrategyDSL = body.dsl ? normaliseDsl(body.dsl) : DEFAULT_DSL;
+    const prices = normalisePriceMode(body.prices);
+    const appliedPrices = new Map<string, PriceMode>();
+    // Bars in the requested price mode; tickers without stored corporate actions keep their stored bars.
+    const loadRows = async (ticker: string, withHistory = false) => {
+      const loaded = await readAdjustedRange(ticker, withHistory ? undefined : startDate, endDate, prices);
+      if (loaded.rows.length && loaded.prices !== prices && !appliedPrices.has(ticker)) {
+        logs.push(`${ticker}: no corporate actions, using ${loaded.prices} prices`);
+      }
+      appliedPrices.set(ticker, loaded.prices);
+      return loaded.rows;
+    };
+
+    const benchmarkTicker = typeof body.benchmark === "string" ? body.benchmark.trim().toUpperCase() : "";
+    let benchmark: { ticker: string; rows: Row[] } | undefined;
+    if (benchmarkTicker) {
+      const rows = await loadRows(benchmarkTicker);
+      if (rows.length) benchmark = { ticker: benchmarkTicker, rows };
+      else logs.push(`benchmark ${benchmarkTicker}: no data in range`);
+    }
+
+    if (mode === "pairs") {
+      if (tickers.length !== 2) {
+        return NextResponse.json({ ok: false, error: "pairs mode requires exactly two tickers" }, { status: 400 });
+      }
+      const series = await Promise.all(tickers.map((ticker) => loadRows(ticker)));
+      const missing = tickers.filter((_, k) => !series[k].length);
+      if (missing.length) {
+        return NextResponse.json({ ok: false, error: `${missing.join(", ")}: no data in range` }, { status: 404 });
+      }
+      const config = normalisePairs({ ...body.pairs, ...(body.costs ? { costs: body.costs } : {}) });
+      const pairs = runPairsBacktest(config, series[0], series[1]);
+      if (series.some((rows) => rows.length > pairs.dates.length)) {
+        logs.push(`pairs: ${pairs.dates.length} common dates out of ${series[0].length} and ${series[1].length} bars`);
+      }
+      for (const { date, reason } of pairs.skipped) logs.push(`pairs: entry on ${date} skipped, ${reason}`);
+      const benchmarks = benchmark ? [indexComparison(pairs.equity, pairs.dates, benchmark)] : [];
+      const summary = summarisePairs(pairs, prices, startDate, endDate);
+      return NextResponse.json({ ok: true, summary, pairs: { ...pairs, benchmarks }, perTicker: [], logs });
+    }
+
+    if (mode === "rotation") {
+      const series: Record<string, Row[]> = {};
+      for (const ticker of tickers) {
+        // History before startDate lets the first ranking use a full lookback.
+        const rows = await loadRows(ticker, true);
+        if (!rows.some((row) => row.date >= startDate)) {
+          logs.push(`${ticker}: no data in range`);
+          continue;
+        }
+        series[ticker] = rows;
+      }
+      const config = normaliseRotation({ ...body.rotation, ...(body.costs ? { costs: body.costs } : {}) });
+      const rotation = runRotationBacktest(config, series, { startDate });
+      const summary = summariseRotation(rotation, tickers.length, prices, startDate, endDate);
+      const benchmarks = benchmark ? [indexComparison(rotation.equity, rotation.dates, benchmark)] : [];
+      return NextResponse.json({ ok: true, summary, rotation: { ...rotation, benchmarks }, perTicker: [], logs });
+    }
+
+    const dsl: StrategyDSL = candidate ? normaliseDsl(candidate) : DEFAULT_DSL;
+
+    const regime = regimeTickers(dsl.filters);
+    const references = await readReferenceSeries(regime, endDate);
+    for (const ticker of regime.filter((ref) => !references[ref])) {
+      logs.push(`regime ${ticker}: no data, entries are blocked`);
+    }
+
+    if (body.portfolio) {
+      // The allocation sizes every position in portfolio mode, one lot per ticker.
+      if (dsl.sizing) logs.push(`portfolio: sizing "${dsl.sizing.type}" is ignored, positions are sized by the allocation`);
+      if (dsl.scaling && (dsl.scaling.maxUnits > 1 || dsl.scaling.exitFractions.length)) {
+        logs.push("portfolio: scaling is ignored, each ticker holds one lot that exits in full");
+      }
+      const series: Record<string, Row[]> = {};
+      for (const ticker of tickers) {
+        const rows = await loadRows(ticker);
+        if (!rows.length) {
+          logs.push(`${ticker}: no data in range`);
+          continue;
+        }
+        series[ticker] = rows;
+      }
+      const portfolio = runPortfolioBacktest(dsl, series, normaliseAllocation(body.portfolio), references);
+      const summary = summarisePortfolio(portfolio, tickers.length, prices, startDate, endDate);
+      const benchmarks = benchmark ? [indexComparison(portfolio.equity, portfolio.dates, benchmark)] : [];
+      return NextResponse.json({ ok: true, summary, portfolio: { ...portfolio, benchmarks }, perTicker: [], logs });
+    }
 
     for (const ticker of tickers) {
-      const rows = await readTickerRange(ticker, startDate, endDate);
+      const rows = await loadRows(ticker);
       if (!rows.length) {
         logs.push(`${ticker}: no data in range`);
         continue;
       }
-      const result = runBacktest(dsl, rows);
-      perTicker.push({ ticker, mode: "dsl", stats: result.stats, trades: result.trades, equity: result.equity });
+      const result = runBacktest(dsl, rows, { references });
+      perTicker.push({
+        ticker,
+        mode: "dsl",
+        fill: result.fill,
+        prices: appliedPrices.get(ticker),
+        stats: result.stats,
+        trades: result.trades,
+        equity: result.equity,
+        benchmarks: benchmarkComparisons(result, rows, benchmark),
+      });
     }
 
-    const summary = summariseDslResults(perTicker, startDate, endDate);
+    const summary = summariseDslResults(perTicker, dsl.fill ?? DEFAULT_FILL_POLICY, prices, startDate, endDate);
     return NextResponse.json({ ok: true, summary, perTicker, logs });
   } catch (error) {
     console.error("/api/strategy/run", error);
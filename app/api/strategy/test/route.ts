@@ -5,11 +5,12 @@ export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
 const FIXED_DSL = {
-  indicators: { macd: { fast: 12, slow: 26, signal: 9 }, rsi: { period: 14 } },
-  entry: [{ indicator: 'macd', op: 'crossesAbove', a: 'macd', b: 'signal' }],
-  exit: [{ indicator: 'rsi', op: '>', value: 70 }],
-  mode: 'long-only'
-} as const
+  name: 'MACD cross, RSI exit',
+  direction: 'long',
+  rules: [],
+  entry: { left: { ind: 'macd' }, op: 'crossesAbove', right: { ind: 'macd', output: 'signal' } },
+  exit: { left: { ind: 'rsi', period: 14 }, op: '>', right: 70 }
+}
 
 export async function GET(req: NextRequest) {
   try {
@@ -30,8 +31,8 @@ export async function GET(req: NextRequest) {
     }
 
     // Import inside the handler so build-time never trips on module resolution
-    const { runBacktest } = await import('@/lib/strategy-engine')
-    const result = runBacktest(FIXED_DSL as any, rows)
+    const { normaliseDsl, runBacktest } = await import('@/lib/strategy-engine')
+    const result = runBacktest(normaliseDsl(FIXED_DSL), rows)
     const stats = result?.stats ?? { totalReturnPct: 0, trades: 0, winRatePct: 0, avgTradePct: 0 }
 
     return NextResponse.json({
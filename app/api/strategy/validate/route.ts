@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { DSL_SCHEMA_VERSION, strategyDslSchema, validateDsl } from "@/lib/dsl-schema";
+import { normaliseDsl } from "@/lib/strategy-engine";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** The JSON Schema of the DSL this server accepts. */
+export async function GET() {
+  return NextResponse.json({ ok: true, version: DSL_SCHEMA_VERSION, schema: strategyDslSchema() });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body.dsl === undefined) {
+      return NextResponse.json({ ok: false, error: "dsl required" }, { status: 400 });
+    }
+
+    const validation = validateDsl(body.dsl, { strict: body.strict === true });
+    return NextResponse.json({
+      ok: true,
+      ...validation,
+      // What /api/strategy/run would execute, with every default filled in.
+      ...(validation.valid ? { normalised: normaliseDsl(body.dsl) } : {}),
+    });
+  } catch (error) {
+    console.error("/api/strategy/validate", error);
+    return NextResponse.json({ ok: false, error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
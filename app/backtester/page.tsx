@@ -10,6 +10,7 @@ interface BacktestResult {
   ok: boolean;
   summary: any;
   perTicker: any[];
+  portfolio?: any;
   logs: string[];
 }
 
@@ -31,6 +32,8 @@ export default function BacktesterPage() {
     tickers: string[];
     startDate: string;
     endDate: string;
+    portfolio?: { maxPositions?: number; maxPositionPct?: number };
+    benchmark?: string;
   }) => {
     setLoading(true);
     setError(null);
@@ -66,6 +69,8 @@ export default function BacktesterPage() {
 
       if (params.mode === "dsl") {
         backtestPayload.dsl = generateResult.dsl;
+        if (params.portfolio) backtestPayload.portfolio = params.portfolio;
+        if (params.benchmark) backtestPayload.benchmark = params.benchmark;
       } else {
         backtestPayload.code = generateResult.code;
       }
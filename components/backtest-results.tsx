@@ -1,21 +1,248 @@
 "use client";
 
-import { EquityChart } from "./ui/chart";
+import { useState } from "react";
+import { EquityChart, HistogramChart } from "./ui/chart";
 import { TrendingUp, TrendingDown, Activity, DollarSign } from "lucide-react";
 
 interface Trade {
+  side?: "long" | "short";
   entryIdx: number;
   exitIdx: number;
+  unit?: number;
+  avgCost?: number;
+  quantity?: number;
+  notional?: number;
   entryPrice: number;
   exitPrice: number;
   pnl: number;
+  grossPnl?: number;
+  exitReason?: string;
 }
 
 interface BacktestStats {
   totalReturnPct: number;
+  grossReturnPct?: number;
   trades: number;
   winRatePct: number;
   avgTradePct: number;
+  avgExposurePct?: number;
+  cagrPct?: number;
+  volatilityPct?: number;
+  sharpe?: number;
+  sortino?: number | null;
+  calmar?: number | null;
+  maxDrawdownPct?: number;
+  maxDrawdownDays?: number;
+  profitFactor?: number | null;
+  expectancyPct?: number;
+  avgWinPct?: number;
+  avgLossPct?: number;
+  maxWinStreak?: number;
+  maxLossStreak?: number;
+  exposurePct?: number;
+  avgBarsHeld?: number;
+}
+
+const FILL_LABELS: Record<string, string> = {
+  same_close: "same-bar close",
+  next_open: "next-bar open",
+  next_vwap: "next-bar VWAP",
+  next_close: "next-bar close",
+};
+
+const formatNumber = (value: number | null | undefined, digits = 2, suffix = "") =>
+  value === null || value === undefined || !Number.isFinite(value) ? "-" : `${value.toFixed(digits)}${suffix}`;
+
+function performanceRows(stats: BacktestStats): Array<[string, string]> {
+  return [
+    ["CAGR", formatNumber(stats.cagrPct, 2, "%")],
+    ["Volatility (ann.)", formatNumber(stats.volatilityPct, 2, "%")],
+    ["Sharpe", formatNumber(stats.sharpe)],
+    ["Sortino", formatNumber(stats.sortino)],
+    ["Calmar", formatNumber(stats.calmar)],
+    ["Max Drawdown", formatNumber(stats.maxDrawdownPct, 2, "%")],
+    ["Drawdown Duration", formatNumber(stats.maxDrawdownDays, 0, " days")],
+    ["Profit Factor", formatNumber(stats.profitFactor)],
+    ["Expectancy", formatNumber(stats.expectancyPct, 2, "%")],
+    ["Avg Win / Loss", `${formatNumber(stats.avgWinPct, 2, "%")} / ${formatNumber(stats.avgLossPct, 2, "%")}`],
+    ["Win / Loss Streak", `${formatNumber(stats.maxWinStreak, 0)} / ${formatNumber(stats.maxLossStreak, 0)}`],
+    ["Exposure", formatNumber(stats.exposurePct, 1, "%")],
+    ["Avg Position Size", formatNumber(stats.avgExposurePct, 1, "%")],
+    ["Avg Bars Held", formatNumber(stats.avgBarsHeld, 1)],
+  ];
+}
+
+interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+interface MonteCarloResult {
+  method: string;
+  iterations: number;
+  seed: number;
+  finalReturnPct: Percentiles;
+  maxDrawdownPct: Percentiles;
+  probabilityOfRuinPct: number;
+  histogram: Array<{ from: number; to: number; count: number }>;
+}
+
+function MonteCarloPanel({ ticker, trades, equity }: { ticker: string; trades: Trade[]; equity: number[] }) {
+  const [method, setMethod] = useState("shuffle");
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function runSimulation() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/strategy/monte-carlo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ trades, equity, method }),
+      });
+      const data = await response.json();
+
+      if (data.ok) {
+        setResult(data);
+      } else {
+        setError(data.error || "Monte Carlo simulation failed");
+      }
+    } catch (err) {
+      setError("Failed to run Monte Carlo simulation");
+      console.error("Error running Monte Carlo:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const percentileRows = (label: string, p: Percentiles) => (
+    <tr className="border-t border-gray-700">
+      <td className="p-2 text-gray-300">{label}</td>
+      {[p.p5, p.p25, p.p50, p.p75, p.p95].map((value, i) => (
+        <td key={i} className="p-2 text-right text-gray-300">{formatNumber(value, 2, "%")}</td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-3 mb-3">
+        <h4 className="text-sm font-medium text-gray-300">Monte Carlo</h4>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value)}
+          className="bg-gray-700 text-white text-sm rounded px-2 py-1"
+        >
+          <option value="shuffle">Shuffle trades</option>
+          <option value="resample">Resample trades</option>
+          <option value="returns">Bootstrap returns</option>
+        </select>
+        <button
+          onClick={runSimulation}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm rounded px-3 py-1"
+        >
+          {loading ? "Running..." : "Run Monte Carlo"}
+        </button>
+      </div>
+
+      {error && <p className="text-red-300 text-sm mb-2">{error}</p>}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="text-sm text-gray-400">
+            {result.iterations} runs (seed {result.seed}) · Probability of ruin:{" "}
+            <span className="text-white font-medium">{formatNumber(result.probabilityOfRuinPct, 1, "%")}</span>
+          </div>
+          <div className="bg-gray-900 rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr className="text-gray-300">
+                  <th className="text-left p-2"></th>
+                  <th className="text-right p-2">5th</th>
+                  <th className="text-right p-2">25th</th>
+                  <th className="text-right p-2">Median</th>
+                  <th className="text-right p-2">75th</th>
+                  <th className="text-right p-2">95th</th>
+                </tr>
+              </thead>
+              <tbody>
+                {percentileRows("Final Return", result.finalReturnPct)}
+                {percentileRows("Max Drawdown", result.maxDrawdownPct)}
+              </tbody>
+            </table>
+          </div>
+          <HistogramChart data={result.histogram} title={`${ticker} Final Return Distribution`} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface BenchmarkComparison {
+  name: string;
+  equity: number[];
+  stats: {
+    totalReturnPct: number;
+    excessReturnPct: number;
+    alphaPct: number;
+    beta: number;
+    correlation: number;
+    informationRatio: number | null;
+    trackingErrorPct: number;
+  };
+}
+
+const benchmarkLabel = (name: string) => (name === "buy_and_hold" ? "Buy & Hold" : name);
+
+const benchmarkCurves = (benchmarks: BenchmarkComparison[] = []) =>
+  benchmarks.map((benchmark) => ({ name: benchmarkLabel(benchmark.name), data: benchmark.equity }));
+
+function BenchmarkTable({ benchmarks }: { benchmarks: BenchmarkComparison[] }) {
+  return (
+    <div className="mb-6">
+      <h4 className="text-sm font-medium text-gray-300 mb-2">Versus Benchmarks</h4>
+      <div className="bg-gray-900 rounded overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-800">
+            <tr className="text-gray-300">
+              <th className="text-left p-2">Benchmark</th>
+              <th className="text-right p-2">Return</th>
+              <th className="text-right p-2">Excess</th>
+              <th className="text-right p-2">Alpha (ann.)</th>
+              <th className="text-right p-2">Beta</th>
+              <th className="text-right p-2">Correlation</th>
+              <th className="text-right p-2">Info Ratio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {benchmarks.map(({ name, stats }) => (
+              <tr key={name} className="border-t border-gray-700">
+                <td className="p-2 text-white font-medium">{benchmarkLabel(name)}</td>
+                <td className="p-2 text-right text-gray-300">{formatNumber(stats.totalReturnPct, 2, "%")}</td>
+                <td className={`p-2 text-right font-medium ${
+                  stats.excessReturnPct >= 0 ? "text-green-400" : "text-red-400"
+                }`}>
+                  {formatNumber(stats.excessReturnPct, 2, "%")}
+                </td>
+                <td className="p-2 text-right text-gray-300">{formatNumber(stats.alphaPct, 2, "%")}</td>
+                <td className="p-2 text-right text-gray-300">{formatNumber(stats.beta)}</td>
+                <td className="p-2 text-right text-gray-300">{formatNumber(stats.correlation)}</td>
+                <td className="p-2 text-right text-gray-300">{formatNumber(stats.informationRatio)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
 }
 
 interface TickerResult {
@@ -24,14 +251,25 @@ interface TickerResult {
   stats?: BacktestStats;
   trades?: Trade[];
   equity?: number[];
+  benchmarks?: BenchmarkComparison[];
   result?: any; // For ML results
 }
 
+interface PortfolioResult {
+  dates: string[];
+  equity: number[];
+  trades: Array<Trade & { ticker: string; quantity: number }>;
+  contributions: Array<{ ticker: string; pnl: number; contributionPct: number; trades: number }>;
+  stats: BacktestStats;
+  benchmarks?: BenchmarkComparison[];
+}
+
 interface BacktestResultsProps {
   results: {
     ok: boolean;
     summary: any;
     perTicker: TickerResult[];
+    portfolio?: PortfolioResult;
     logs: string[];
   } | null;
   generatedStrategy?: {
@@ -44,7 +282,7 @@ interface BacktestResultsProps {
 export function BacktestResults({ results, generatedStrategy }: BacktestResultsProps) {
   if (!results) return null;
 
-  const { summary, perTicker, logs } = results;
+  const { summary, perTicker, portfolio, logs } = results;
 
   return (
     <div className="space-y-6">
@@ -85,6 +323,22 @@ export function BacktestResults({ results, generatedStrategy }: BacktestResultsP
             <div className="text-sm text-gray-400">Tickers Processed</div>
           </div>
 
+          {summary.mode === "portfolio" && (
+            <>
+              <div className="text-center p-4 bg-gray-700 rounded">
+                <div className="text-2xl font-bold text-green-400">
+                  {summary.totalReturnPct?.toFixed(2) || 0}%
+                </div>
+                <div className="text-sm text-gray-400">Portfolio Return</div>
+              </div>
+
+              <div className="text-center p-4 bg-gray-700 rounded">
+                <div className="text-2xl font-bold text-purple-400">{summary.totalTrades || 0}</div>
+                <div className="text-sm text-gray-400">Total Trades</div>
+              </div>
+            </>
+          )}
+
           {summary.mode === "dsl" && (
             <>
               <div className="text-center p-4 bg-gray-700 rounded">
@@ -106,6 +360,9 @@ export function BacktestResults({ results, generatedStrategy }: BacktestResultsP
               {summary.startDate} to {summary.endDate}
             </div>
             <div className="text-sm text-gray-400">Test Period</div>
+            {summary.fill && (
+              <div className="text-xs text-gray-500 mt-1">Fills: {FILL_LABELS[summary.fill] ?? summary.fill}</div>
+            )}
           </div>
         </div>
 
@@ -121,6 +378,62 @@ export function BacktestResults({ results, generatedStrategy }: BacktestResultsP
         )}
       </div>
 
+      {/* Portfolio Results */}
+      {portfolio && (
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Portfolio Results</h3>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 mb-6">
+            {performanceRows(portfolio.stats).map(([label, value]) => (
+              <div key={label} className="p-2 bg-gray-900 rounded">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-medium text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mb-6">
+            <EquityChart
+              data={portfolio.equity}
+              title="Portfolio Equity Curve"
+              benchmarks={benchmarkCurves(portfolio.benchmarks)}
+            />
+          </div>
+
+          {portfolio.benchmarks && portfolio.benchmarks.length > 0 && (
+            <BenchmarkTable benchmarks={portfolio.benchmarks} />
+          )}
+
+          <h4 className="text-sm font-medium text-gray-300 mb-2">Contribution by Ticker</h4>
+          <div className="bg-gray-900 rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr className="text-gray-300">
+                  <th className="text-left p-2">Ticker</th>
+                  <th className="text-right p-2">Trades</th>
+                  <th className="text-right p-2">P&L</th>
+                  <th className="text-right p-2">Contribution</th>
+                </tr>
+              </thead>
+              <tbody>
+                {portfolio.contributions.map((item) => (
+                  <tr key={item.ticker} className="border-t border-gray-700">
+                    <td className="p-2 text-gray-300">{item.ticker}</td>
+                    <td className="p-2 text-right text-gray-300">{item.trades}</td>
+                    <td className="p-2 text-right text-gray-300">${item.pnl.toFixed(2)}</td>
+                    <td className={`p-2 text-right font-medium ${
+                      item.contributionPct > 0 ? "text-green-400" : "text-red-400"
+                    }`}>
+                      {item.contributionPct.toFixed(2)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Per-Ticker Results */}
       {perTicker.map((result, index) => (
         <div key={index} className="bg-gray-800 rounded-lg p-6">
@@ -138,7 +451,11 @@ export function BacktestResults({ results, generatedStrategy }: BacktestResultsP
                     <div className="text-lg font-bold text-white">
                       {result.stats.totalReturnPct.toFixed(2)}%
                     </div>
-                    <div className="text-xs text-gray-400">Total Return</div>
+                    <div className="text-xs text-gray-400">
+                      Total Return
+                      {result.stats.grossReturnPct !== undefined &&
+                        ` (gross ${result.stats.grossReturnPct.toFixed(2)}%)`}
+                    </div>
                   </div>
                 </div>
 
@@ -171,16 +488,39 @@ export function BacktestResults({ results, generatedStrategy }: BacktestResultsP
                 </div>
               </div>
 
+              {/* Risk-adjusted Metrics */}
+              {result.stats.sharpe !== undefined && (
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 mb-6">
+                  {performanceRows(result.stats).map(([label, value]) => (
+                    <div key={label} className="p-2 bg-gray-900 rounded">
+                      <div className="text-xs text-gray-400">{label}</div>
+                      <div className="text-sm font-medium text-white">{value}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Equity Chart */}
               {result.equity && result.equity.length > 0 && (
                 <div className="mb-6">
                   <EquityChart
                     data={result.equity}
                     title={`${result.ticker} Equity Curve`}
+                    benchmarks={benchmarkCurves(result.benchmarks)}
                   />
                 </div>
               )}
 
+              {/* Benchmark Comparison */}
+              {result.benchmarks && result.benchmarks.length > 0 && (
+                <BenchmarkTable benchmarks={result.benchmarks} />
+              )}
+
+              {/* Monte Carlo */}
+              {result.trades && result.trades.length > 0 && result.equity && (
+                <MonteCarloPanel ticker={result.ticker} trades={result.trades} equity={result.equity} />
+              )}
+
               {/* Trades Table */}
               {result.trades && result.trades.length > 0 && (
                 <div>
@@ -190,18 +530,33 @@ export function BacktestResults({ results, generatedStrategy }: BacktestResultsP
                       <table className="w-full text-sm">
                         <thead className="bg-gray-800 sticky top-0">
                           <tr className="text-gray-300">
+                            <th className="text-left p-2">Side</th>
+                            <th className="text-left p-2">Unit</th>
                             <th className="text-left p-2">Entry</th>
                             <th className="text-left p-2">Exit</th>
+                            <th className="text-right p-2">Qty</th>
+                            <th className="text-right p-2">Notional</th>
                             <th className="text-right p-2">Entry Price</th>
                             <th className="text-right p-2">Exit Price</th>
                             <th className="text-right p-2">P&L %</th>
+                            <th className="text-left p-2">Exit Reason</th>
                           </tr>
                         </thead>
                         <tbody>
                           {result.trades.map((trade, i) => (
                             <tr key={i} className="border-t border-gray-700">
+                              <td className={`p-2 font-medium ${
+                                trade.side === "short" ? "text-red-300" : "text-green-300"
+                              }`}>
+                                {trade.side === "short" ? "Short" : "Long"}
+                              </td>
+                              <td className="p-2 text-gray-300">{trade.unit ?? 1}</td>
                               <td className="p-2 text-gray-300">{trade.entryIdx}</td>
                               <td className="p-2 text-gray-300">{trade.exitIdx}</td>
+                              <td className="p-2 text-right text-gray-300">{formatNumber(trade.quantity, 0)}</td>
+                              <td className="p-2 text-right text-gray-300">
+                                {trade.notional !== undefined ? `$${trade.notional.toFixed(0)}` : "-"}
+                              </td>
                               <td className="p-2 text-right text-gray-300">
                                 ${trade.entryPrice.toFixed(2)}
                               </td>
@@ -213,6 +568,9 @@ export function BacktestResults({ results, generatedStrategy }: BacktestResultsP
                               }`}>
                                 {(trade.pnl * 100).toFixed(2)}%
                               </td>
+                              <td className="p-2 text-gray-400">
+                                {trade.exitReason ? trade.exitReason.replace(/_/g, " ") : "-"}
+                              </td>
                             </tr>
                           ))}
                         </tbody>
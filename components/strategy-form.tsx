@@ -2,6 +2,9 @@
 
 import { useState } from "react";
 import { Play, Sparkles, Code, BookOpen } from "lucide-react";
+import { listIndicators } from "@/lib/indicator-registry";
+
+const INDICATORS = listIndicators();
 
 interface StrategyFormProps {
   onRunStrategy: (params: {
@@ -10,6 +13,8 @@ interface StrategyFormProps {
     tickers: string[];
     startDate: string;
     endDate: string;
+    portfolio?: { maxPositions?: number; maxPositionPct?: number };
+    benchmark?: string;
   }) => void;
   loading: boolean;
 }
@@ -20,6 +25,9 @@ export function StrategyForm({ onRunStrategy, loading }: StrategyFormProps) {
   const [tickers, setTickers] = useState("AAPL");
   const [startDate, setStartDate] = useState("2023-01-01");
   const [endDate, setEndDate] = useState("2024-01-01");
+  const [portfolioMode, setPortfolioMode] = useState(false);
+  const [maxPositions, setMaxPositions] = useState("");
+  const [benchmark, setBenchmark] = useState("SPY");
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,6 +44,10 @@ export function StrategyForm({ onRunStrategy, loading }: StrategyFormProps) {
       tickers: tickerList,
       startDate,
       endDate,
+      portfolio: mode === "dsl" && portfolioMode
+        ? { maxPositions: maxPositions ? Number(maxPositions) : undefined }
+        : undefined,
+      benchmark: mode === "dsl" && benchmark.trim() ? benchmark.trim().toUpperCase() : undefined,
     });
   };
 
@@ -80,7 +92,7 @@ export function StrategyForm({ onRunStrategy, loading }: StrategyFormProps) {
                 <span className="font-medium">Rule-Based (DSL)</span>
               </div>
               <p className="text-xs text-gray-400">
-                Uses technical indicators like SMA, RSI, MACD
+                Uses technical indicators like {INDICATORS.slice(0, 3).map((d) => d.label).join(", ")}
               </p>
             </button>
 
@@ -133,6 +145,17 @@ export function StrategyForm({ onRunStrategy, loading }: StrategyFormProps) {
                 </button>
               ))}
             </div>
+            {mode === "dsl" && (
+              <p className="mt-3 text-xs text-gray-400">
+                Available indicators:{" "}
+                {INDICATORS.map((d, index) => (
+                  <span key={d.name} title={d.description}>
+                    {index > 0 && ", "}
+                    {d.label}
+                  </span>
+                ))}
+              </p>
+            )}
           </div>
         </div>
 
@@ -175,6 +198,38 @@ export function StrategyForm({ onRunStrategy, loading }: StrategyFormProps) {
           </div>
         </div>
 
+        {/* Portfolio Mode & Benchmark */}
+        {mode === "dsl" && (
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={portfolioMode}
+                onChange={(e) => setPortfolioMode(e.target.checked)}
+                className="mr-2"
+              />
+              Backtest tickers as one portfolio (shared cash, equal weight)
+            </label>
+            {portfolioMode && (
+              <input
+                type="number"
+                min={1}
+                value={maxPositions}
+                onChange={(e) => setMaxPositions(e.target.value)}
+                placeholder="Max positions"
+                className="w-40 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white placeholder-gray-400 focus:outline-none focus:border-blue-500"
+              />
+            )}
+            <input
+              type="text"
+              value={benchmark}
+              onChange={(e) => setBenchmark(e.target.value)}
+              placeholder="Benchmark (e.g. SPY)"
+              className="w-40 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white placeholder-gray-400 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        )}
+
         {/* Submit Button */}
         <button
           type="submit"
@@ -1,6 +1,6 @@
 "use client";
 
-import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from "recharts";
+import { ResponsiveContainer, LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from "recharts";
 
 interface ChartData {
   date: string;
@@ -68,9 +68,13 @@ export function PriceLineChart({ data, title }: LineChartProps) {
 interface EquityChartProps {
   data: number[];
   title?: string;
+  /** Extra curves (same length and scale as `data`) drawn behind the strategy's equity. */
+  benchmarks?: Array<{ name: string; data: number[] }>;
 }
 
-export function EquityChart({ data, title }: EquityChartProps) {
+const BENCHMARK_COLORS = ["#9CA3AF", "#F59E0B", "#6366F1"];
+
+export function EquityChart({ data, title, benchmarks = [] }: EquityChartProps) {
   if (!data || data.length === 0) {
     return (
       <div className="h-64 flex items-center justify-center border rounded bg-gray-900">
@@ -82,6 +86,7 @@ export function EquityChart({ data, title }: EquityChartProps) {
   const chartData = data.map((equity, index) => ({
     index,
     equity: equity * 100, // Convert to percentage
+    ...Object.fromEntries(benchmarks.map((benchmark) => [benchmark.name, (benchmark.data[index] ?? NaN) * 100])),
   }));
 
   return (
@@ -101,7 +106,7 @@ export function EquityChart({ data, title }: EquityChartProps) {
             tickFormatter={(value) => `${value.toFixed(1)}%`}
           />
           <Tooltip
-            formatter={(value: any) => [`${Number(value).toFixed(2)}%`, "Equity"]}
+            formatter={(value: any, name: any) => [`${Number(value).toFixed(2)}%`, name === "equity" ? "Equity" : String(name).replace(/_/g, " ")]}
             labelFormatter={(value) => `Day ${value}`}
             contentStyle={{
               backgroundColor: "#1F2937",
@@ -110,6 +115,17 @@ export function EquityChart({ data, title }: EquityChartProps) {
               color: "#F9FAFB"
             }}
           />
+          {benchmarks.map((benchmark, i) => (
+            <Line
+              key={benchmark.name}
+              type="monotone"
+              dataKey={benchmark.name}
+              stroke={BENCHMARK_COLORS[i % BENCHMARK_COLORS.length]}
+              strokeWidth={1}
+              strokeDasharray="4 4"
+              dot={false}
+            />
+          ))}
           <Line
             type="monotone"
             dataKey="equity"
@@ -121,4 +137,63 @@ export function EquityChart({ data, title }: EquityChartProps) {
       </ResponsiveContainer>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+interface HistogramChartProps {
+  data: HistogramBin[];
+  title?: string;
+}
+
+export function HistogramChart({ data, title }: HistogramChartProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center border rounded bg-gray-900">
+        <p className="text-gray-400">No distribution data available</p>
+      </div>
+    );
+  }
+
+  const chartData = data.map((bin) => ({
+    label: `${((bin.from + bin.to) / 2).toFixed(1)}%`,
+    range: `${bin.from.toFixed(1)}% to ${bin.to.toFixed(1)}%`,
+    count: bin.count,
+  }));
+
+  return (
+    <div className="w-full">
+      {title && <h3 className="text-lg font-semibold mb-2 text-white">{title}</h3>}
+      <ResponsiveContainer width="100%" height={250}>
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis
+            dataKey="label"
+            stroke="#9CA3AF"
+            fontSize={12}
+          />
+          <YAxis
+            stroke="#9CA3AF"
+            fontSize={12}
+            allowDecimals={false}
+          />
+          <Tooltip
+            formatter={(value: any) => [value, "Runs"]}
+            labelFormatter={(_, payload: any) => payload?.[0]?.payload?.range ?? ""}
+            contentStyle={{
+              backgroundColor: "#1F2937",
+              border: "1px solid #374151",
+              borderRadius: "6px",
+              color: "#F9FAFB"
+            }}
+          />
+          <Bar dataKey="count" fill="#6366F1" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+// lib/benchmark.ts
+import type { Row } from "../types/row";
+import { mean, periodReturns, periodsPerYear, stdev } from "./metrics";
+
+/**
+ * How a strategy compares with a benchmark over the same bars. Returns are per-bar simple returns,
+ * ratios are annualised with the bar frequency implied by the dates and use a zero risk-free rate.
+ */
+export type BenchmarkStats = {
+  /** Benchmark total return over the run. */
+  totalReturnPct: number;
+  /** Strategy total return minus benchmark total return. */
+  excessReturnPct: number;
+  /** Annualised Jensen's alpha. */
+  alphaPct: number;
+  beta: number;
+  correlation: number;
+  informationRatio: number | null;
+  trackingErrorPct: number;
+};
+
+export type BenchmarkComparison = {
+  /** "buy_and_hold" for the traded ticker itself, or the benchmark ticker. */
+  name: string;
+  /** Benchmark equity in units of starting capital, aligned with the strategy's equity. */
+  equity: number[];
+  stats: BenchmarkStats;
+};
+
+/** Equity of holding `rows` from the first close, in units of starting capital. */
+export function buyAndHoldEquity(rows: Row[]): number[] {
+  const first = rows[0]?.close;
+  return rows.map((row) => (first ? row.close / first : 1));
+}
+
+/**
+ * Buy-and-hold equity of `rows` on the given (sorted) dates, valued at the benchmark's latest close
+ * on or before each date. Dates before its first bar stay at 1.
+ */
+export function alignedBuyAndHold(rows: Row[], dates: string[]): number[] {
+  let j = -1;
+  let first: number | undefined;
+  return dates.map((date) => {
+    while (j + 1 < rows.length && rows[j + 1].date <= date) j++;
+    if (j < 0) return 1;
+    first ??= rows[j].close;
+    return first ? rows[j].close / first : 1;
+  });
+}
+
+export function compareToBenchmark(equity: number[], benchmark: number[], dates: string[]): BenchmarkStats {
+  const strategyReturns = periodReturns(equity);
+  const benchmarkReturns = periodReturns(benchmark);
+  const n = Math.min(strategyReturns.length, benchmarkReturns.length);
+  const rs = strategyReturns.slice(0, n);
+  const rb = benchmarkReturns.slice(0, n);
+  const annualisation = periodsPerYear(dates);
+
+  const meanS = mean(rs);
+  const meanB = mean(rb);
+  let covariance = 0;
+  let varianceB = 0;
+  let varianceS = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (rs[i] - meanS) * (rb[i] - meanB);
+    varianceB += (rb[i] - meanB) ** 2;
+    varianceS += (rs[i] - meanS) ** 2;
+  }
+  const beta = varianceB > 0 ? covariance / varianceB : 0;
+  const correlation = varianceB > 0 && varianceS > 0 ? covariance / Math.sqrt(varianceB * varianceS) : 0;
+
+  const active = rs.map((r, i) => r - rb[i]);
+  const trackingError = stdev(active);
+
+  const strategyTotal = (equity.at(-1) ?? 1) - 1;
+  const benchmarkTotal = (benchmark.at(-1) ?? 1) - 1;
+  return {
+    totalReturnPct: benchmarkTotal * 100,
+    excessReturnPct: (strategyTotal - benchmarkTotal) * 100,
+    alphaPct: (meanS - beta * meanB) * annualisation * 100,
+    beta,
+    correlation,
+    informationRatio: trackingError > 1e-12 ? (mean(active) / trackingError) * Math.sqrt(annualisation) : null,
+    trackingErrorPct: trackingError * Math.sqrt(annualisation) * 100,
+  };
+}
+
+/** Compares any equity curve on `dates` with buy-and-hold of a benchmark ticker aligned by date. */
+export function indexComparison(
+  equity: number[],
+  dates: string[],
+  benchmark: { ticker: string; rows: Row[] },
+): BenchmarkComparison {
+  const indexEquity = alignedBuyAndHold(benchmark.rows, dates);
+  return { name: benchmark.ticker, equity: indexEquity, stats: compareToBenchmark(equity, indexEquity, dates) };
+}
+
+/**
+ * Compares a single-ticker backtest with buy-and-hold of the same rows and, when given, with
+ * buy-and-hold of a benchmark ticker.
+ */
+export function benchmarkComparisons(
+  result: { equity: number[] },
+  rows: Row[],
+  benchmark?: { ticker: string; rows: Row[] },
+): BenchmarkComparison[] {
+  const dates = rows.map((row) => row.date);
+  const holdEquity = buyAndHoldEquity(rows);
+  const comparisons: BenchmarkComparison[] = [
+    { name: "buy_and_hold", equity: holdEquity, stats: compareToBenchmark(result.equity, holdEquity, dates) },
+  ];
+  if (benchmark) comparisons.push(indexComparison(result.equity, dates, benchmark));
+  return comparisons;
+}
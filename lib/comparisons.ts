@@ -0,0 +1,124 @@
+// lib/comparisons.ts
+import type { Row } from "../types/row";
+import {
+  PRICE_FIELDS,
+  computeIndicator,
+  getIndicator,
+  hasSource,
+  normaliseParams,
+  priceSeries,
+  type PriceField,
+} from "./indicator-registry";
+import { timeframeView, type HigherTimeframe } from "./resample";
+import type { Side } from "./strategy-engine";
+
+/**
+ * An indicator series from the registry in lib/indicator-registry.ts, e.g. `{ ind: "sma", period: 50 }`.
+ * Parameters left out take the indicator's defaults; `output` picks a line of multi-line indicators
+ * (`{ ind: "bollinger", output: "upper" }`) and `source` the price field of indicators that read a
+ * single series (default "close").
+ */
+export type IndicatorRef = { ind: string; output?: string; source?: PriceField; [param: string]: string | number | undefined };
+
+/** A constant, a price field or an indicator. */
+export type Operand = number | PriceField | IndicatorRef;
+
+export type CompareOp = "crossesAbove" | "crossesBelow" | ">" | "<" | "between";
+
+export const COMPARE_OPS: CompareOp[] = ["crossesAbove", "crossesBelow", ">", "<", "between"];
+
+/** Inclusive bounds for "between". */
+export type Bounds = { lower: Operand; upper: Operand };
+
+/**
+ * True on the bars where `left op right` holds. Crosses fire on the bar `left` moves from at or
+ * below (above) `right` to strictly above (below) it. In `entry`/`exit` trees the condition is the
+ * leaf's signal either way; among flat `rules` it only enters, unless `signal` is "exit". `side` is
+ * the side it opens or closes, long by default.
+ */
+export type CompareRule = {
+  type: "compare";
+  left: Operand;
+  op: CompareOp;
+  right: Operand | Bounds;
+  side?: Side;
+  signal?: "enter" | "exit";
+  /** Evaluates every operand, prices included, on weekly or monthly bars; see lib/resample.ts. */
+  timeframe?: HigherTimeframe;
+};
+
+function normaliseIndicator(raw: any): IndicatorRef | null {
+  const name = String(raw.ind ?? raw.indicator ?? "").toLowerCase();
+  const definition = getIndicator(name);
+  if (!definition) return null;
+  const ref: IndicatorRef = { ind: name, ...normaliseParams(definition, raw) };
+  if (definition.outputs.length > 1) {
+    ref.output = definition.outputs.includes(raw.output) ? raw.output : definition.outputs[0];
+  }
+  if (hasSource(definition)) ref.source = PRICE_FIELDS.includes(raw.source) ? raw.source : "close";
+  return ref;
+}
+
+export function normaliseOperand(raw: unknown): Operand | null {
+  if (PRICE_FIELDS.includes(raw as PriceField)) return raw as PriceField;
+  const n = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN;
+  if (Number.isFinite(n)) return n;
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) return normaliseIndicator(raw);
+  return null;
+}
+
+/** Accepts `{ left, op, right }` with or without `type: "compare"`; null when any part is unusable. */
+export function normaliseCompareRule(raw: any): CompareRule | null {
+  if (!raw || typeof raw !== "object" || !COMPARE_OPS.includes(raw.op)) return null;
+  const left = normaliseOperand(raw.left);
+  let right: Operand | Bounds | null;
+  if (raw.op === "between") {
+    const lower = normaliseOperand(raw.right?.lower);
+    const upper = normaliseOperand(raw.right?.upper);
+    right = lower !== null && upper !== null ? { lower, upper } : null;
+  } else {
+    right = normaliseOperand(raw.right);
+  }
+  if (left === null || right === null) return null;
+  return {
+    type: "compare",
+    left,
+    op: raw.op,
+    right,
+    ...(raw.side === "long" || raw.side === "short" ? { side: raw.side } : {}),
+    ...(raw.signal === "enter" || raw.signal === "exit" ? { signal: raw.signal } : {}),
+  };
+}
+
+/** The series an operand stands for on `rows`; indicators are memoized by the registry. */
+export function operandSeries(operand: Operand, rows: Row[]): number[] {
+  if (typeof operand === "number") return new Array(rows.length).fill(operand);
+  if (typeof operand === "string") return priceSeries(rows, operand);
+  const definition = getIndicator(operand.ind);
+  if (!definition) throw new Error(`Unknown indicator: ${operand.ind}`);
+  const outputs = computeIndicator(rows, operand.ind, operand, operand.source ?? "close");
+  return outputs[operand.output ?? definition.outputs[0]] ?? outputs[definition.outputs[0]];
+}
+
+export function compareSignals(rule: CompareRule, rows: Row[]): boolean[] {
+  const { bars, align } = timeframeView(rows, rule.timeframe);
+  const series = (operand: Operand) => align(operandSeries(operand, bars));
+  const left = series(rule.left);
+  if (rule.op === "between") {
+    const { lower, upper } = rule.right as Bounds;
+    const lo = series(lower);
+    const hi = series(upper);
+    return left.map((value, i) => value >= lo[i] && value <= hi[i]);
+  }
+  const right = series(rule.right as Operand);
+  switch (rule.op) {
+    case "crossesAbove":
+      return left.map((value, i) => i > 0 && left[i - 1] <= right[i - 1] && value > right[i]);
+    case "crossesBelow":
+      return left.map((value, i) => i > 0 && left[i - 1] >= right[i - 1] && value < right[i]);
+    case ">":
+      return left.map((value, i) => value > right[i]);
+    default:
+      return left.map((value, i) => value < right[i]);
+  }
+}
@@ -0,0 +1,156 @@
+// lib/corporate-actions.ts
+import type { Row } from "../types/row";
+import type { PolygonClient } from "./polygon";
+
+/** A cash dividend of `amount` per share as paid at the time, before any later split. */
+export type Dividend = { exDate: string; amount: number; payDate?: string };
+
+/** `from` old shares became `to` new ones on `date`, e.g. 1 -> 4 for a 4-for-1 split. */
+export type Split = { date: string; from: number; to: number };
+
+/**
+ * A ticker's dividends and splits, stored next to its bar file as `<TICKER>.actions.json`.
+ * `barsAdjusted` records whether the stored bars are already split-adjusted (REST downloads) or raw
+ * (flat files), which is what the adjustments below start from.
+ */
+export type CorporateActions = {
+  ticker: string;
+  barsAdjusted: boolean;
+  dividends: Dividend[];
+  splits: Split[];
+  updatedAt?: string;
+};
+
+/**
+ * Which prices a backtest runs on.
+ * - "raw": as traded on the day; splits show up as price jumps.
+ * - "split_adjusted": earlier prices divided by later splits, so the series is continuous.
+ * - "total_return": split-adjusted and back-adjusted for dividends, as if every dividend was reinvested
+ *   at the previous close. Prices are scaled so the latest bar matches its split-adjusted close.
+ */
+export type PriceMode = "raw" | "split_adjusted" | "total_return";
+
+export const PRICE_MODES: PriceMode[] = ["raw", "split_adjusted", "total_return"];
+
+export const ACTIONS_SUFFIX = ".actions.json";
+
+/**
+ * Where a ticker's corporate actions sit next to its bar file: the bar file's extension, whatever
+ * it is, is swapped for ACTIONS_SUFFIX and any query string is kept.
+ */
+export function actionsUrl(barUrl: string): string {
+  const [, path, query] = /^([^?#]*)(.*)$/.exec(barUrl)!;
+  return path.replace(/\.[^./]*$/, "") + ACTIONS_SUFFIX + query;
+}
+
+export function normalisePriceMode(raw: unknown): PriceMode {
+  return PRICE_MODES.includes(raw as PriceMode) ? (raw as PriceMode) : "split_adjusted";
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function normaliseCorporateActions(raw: any, ticker: string): CorporateActions {
+  const list = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+  const dividends = list(raw?.dividends)
+    .map((d) => ({
+      exDate: String(d?.exDate ?? d?.ex_dividend_date ?? ""),
+      amount: Number(d?.amount ?? d?.cash_amount),
+      ...(d?.payDate ?? d?.pay_date ? { payDate: String(d.payDate ?? d.pay_date) } : {}),
+    }))
+    .filter((d) => ISO_DATE.test(d.exDate) && d.amount > 0)
+    .sort((a, b) => a.exDate.localeCompare(b.exDate));
+  const splits = list(raw?.splits)
+    .map((s) => ({
+      date: String(s?.date ?? s?.execution_date ?? ""),
+      from: Number(s?.from ?? s?.split_from),
+      to: Number(s?.to ?? s?.split_to),
+    }))
+    .filter((s) => ISO_DATE.test(s.date) && s.from > 0 && s.to > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    ticker: String(raw?.ticker ?? ticker).toUpperCase(),
+    barsAdjusted: raw?.barsAdjusted !== false,
+    dividends,
+    splits,
+    ...(typeof raw?.updatedAt === "string" ? { updatedAt: raw.updatedAt } : {}),
+  };
+}
+
+/** Downloads a ticker's dividends and splits from Polygon. */
+export async function fetchCorporateActions(
+  client: PolygonClient,
+  ticker: string,
+  barsAdjusted: boolean,
+): Promise<CorporateActions> {
+  const [dividends, splits] = await Promise.all([
+    client.getDividends({ ticker, limit: 1000 }),
+    client.getSplits({ ticker, limit: 1000 }),
+  ]);
+  return normaliseCorporateActions(
+    {
+      ticker,
+      barsAdjusted,
+      dividends: dividends.results ?? [],
+      splits: splits.results ?? [],
+      updatedAt: new Date().toISOString(),
+    },
+    ticker,
+  );
+}
+
+/** Product of the ratios of splits after `date`: how many of today's shares one share on `date` became. */
+function splitFactorAfter(splits: Split[], date: string): number {
+  return splits.reduce((factor, split) => (split.date > date ? (factor * split.to) / split.from : factor), 1);
+}
+
+function scaleRow(row: Row, priceScale: number, volumeScale = 1): Row {
+  return {
+    ...row,
+    open: row.open * priceScale,
+    high: row.high * priceScale,
+    low: row.low * priceScale,
+    close: row.close * priceScale,
+    volume: row.volume * volumeScale,
+    ...(row.vwap !== undefined ? { vwap: row.vwap * priceScale } : {}),
+  };
+}
+
+/**
+ * Converts bars stored on the basis recorded in `actions` to `mode`. Rows must be sorted by date and
+ * should be the ticker's full history: dividend adjustments read the close before each ex-date.
+ */
+export function adjustPrices(rows: Row[], actions: CorporateActions, mode: PriceMode): Row[] {
+  const { splits } = actions;
+  if (mode === "raw" && !actions.barsAdjusted) return rows;
+  const splitAdjusted = actions.barsAdjusted
+    ? rows
+    : rows.map((row) => {
+        const factor = splitFactorAfter(splits, row.date);
+        return factor === 1 ? row : scaleRow(row, 1 / factor, factor);
+      });
+
+  if (mode === "raw") {
+    return splitAdjusted.map((row) => {
+      const factor = splitFactorAfter(splits, row.date);
+      return factor === 1 ? row : scaleRow(row, factor, 1 / factor);
+    });
+  }
+  if (mode === "split_adjusted") return splitAdjusted;
+
+  // Walk back from the latest bar, compounding (1 - dividend / previous close) at each ex-date.
+  const out = [...splitAdjusted];
+  let scale = 1;
+  let d = actions.dividends.length - 1;
+  for (let i = out.length - 1; i >= 0; i--) {
+    if (scale !== 1) out[i] = scaleRow(splitAdjusted[i], scale);
+    const previous = splitAdjusted[i - 1];
+    while (d >= 0 && (!previous || actions.dividends[d].exDate > previous.date)) {
+      const dividend = actions.dividends[d--];
+      // Dividends after the last bar, or on or before the first, have no close to adjust against.
+      if (!previous || dividend.exDate > splitAdjusted[i].date) continue;
+      const amount = dividend.amount / splitFactorAfter(splits, dividend.exDate);
+      if (previous.close > amount) scale *= 1 - amount / previous.close;
+    }
+  }
+  return out;
+}
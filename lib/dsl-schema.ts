@@ -0,0 +1,671 @@
+// lib/dsl-schema.ts
+import { COMPARE_OPS } from "./comparisons";
+import { FILTER_TYPES, type EntryFilter } from "./filters";
+import { PRICE_FIELDS, getIndicator, hasSource, listIndicators } from "./indicator-registry";
+import { TIMEFRAMES } from "./resample";
+import { SIZING_TYPES, type PositionSizing } from "./sizing";
+import { FILL_POLICIES, RULE_TYPES, type Direction, type Side, type StrategyDSL } from "./strategy-engine";
+
+/**
+ * Version of the StrategyDSL schema. Bumped whenever a strategy that validated before would no
+ * longer validate; a DSL may pin the version it was written against with `"version"`.
+ */
+export const DSL_SCHEMA_VERSION = 1;
+
+export const DSL_SCHEMA_ID = `urn:ai-backtester:strategy-dsl:v${DSL_SCHEMA_VERSION}`;
+
+/** `path` is dotted, e.g. `rules.0.params.fast`, and empty for the strategy itself. */
+export type DslIssue = { path: string; message: string };
+
+export type DslValidation = { valid: boolean; version: number; errors: DslIssue[]; warnings: DslIssue[] };
+
+export type ValidateOptions = {
+  /** Report input normaliseDsl would coerce or ignore (numeric strings, unknown fields, clamped values) as errors. */
+  strict?: boolean;
+};
+
+type RuleType = StrategyDSL["rules"][number]["type"];
+
+const DIRECTIONS: Direction[] = ["long", "short", "both"];
+const SIDES: Side[] = ["long", "short"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const STRATEGY_FIELDS = [
+  "$schema",
+  "version",
+  "name",
+  "direction",
+  "capital",
+  "costs",
+  "risk",
+  "sizing",
+  "scaling",
+  "holding",
+  "filters",
+  "fill",
+  "rules",
+  "entry",
+  "exit",
+];
+
+/**
+ * Parameters of the built-in rule types with their engine defaults. `ordered` names two parameters
+ * the first of which should be below the second; `enter`/`exit` take one of `directions`.
+ */
+const RULE_SPECS: Record<Exclude<RuleType, "compare">, {
+  periods: Record<string, number>;
+  levels: Record<string, number>;
+  ordered: [string, string];
+  directions: string[];
+}> = {
+  macd_cross: { periods: { fast: 12, slow: 26, signal: 9 }, levels: {}, ordered: ["fast", "slow"], directions: ["bull", "bear"] },
+  rsi_threshold: { periods: { period: 14 }, levels: { low: 30, high: 70 }, ordered: ["low", "high"], directions: ["long", "short"] },
+  sma_cross: {
+    periods: { fast: 10, slow: 20 },
+    levels: {},
+    ordered: ["fast", "slow"],
+    directions: ["fast_above", "fast_below", "long", "short"],
+  },
+  ema_cross: {
+    periods: { fast: 10, slow: 20 },
+    levels: {},
+    ordered: ["fast", "slow"],
+    directions: ["fast_above", "fast_below", "long", "short"],
+  },
+};
+
+const SIZING_FIELDS: Record<PositionSizing["type"], string[]> = {
+  fixed_fraction: ["fraction"],
+  fixed_shares: ["shares"],
+  volatility: ["measure", "period", "riskPct", "maxFraction"],
+  kelly: ["multiplier", "maxFraction", "minTrades", "initialFraction"],
+};
+
+const FILTER_FIELDS: Record<EntryFilter["type"], string[]> = {
+  day_of_week: ["days"],
+  month: ["months"],
+  date_window: ["mode", "windows"],
+  before_date: ["dates", "date", "days"],
+  regime: ["ticker", "indicator", "period", "condition"],
+};
+
+/**
+ * JSON Schema (draft 2020-12) of the StrategyDSL `normaliseDsl` accepts without coercing anything.
+ * Indicator references are generated from the registry, so indicators registered later appear in
+ * schemas built afterwards.
+ */
+export function strategyDslSchema(): Record<string, unknown> {
+  const ref = (name: string) => ({ $ref: `#/$defs/${name}` });
+  const closed = (properties: Record<string, unknown>, required: string[] = []) => ({
+    type: "object",
+    properties,
+    ...(required.length ? { required } : {}),
+    additionalProperties: false,
+  });
+  const positive = { type: "number", exclusiveMinimum: 0 };
+  const nonNegative = { type: "number", minimum: 0 };
+  const fraction = { type: "number", exclusiveMinimum: 0, maximum: 1 };
+  const count = { type: "integer", minimum: 1 };
+  const date = { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" };
+  const oneOrMany = (item: Record<string, unknown>) => ({ oneOf: [item, { type: "array", items: item, minItems: 1 }] });
+  const timeframe = { enum: TIMEFRAMES };
+
+  const legacyRules = Object.entries(RULE_SPECS).map(([type, spec]) => {
+    const direction = { enum: spec.directions };
+    const params: Record<string, unknown> = { enter: direction, exit: direction, timeframe };
+    for (const name of Object.keys(spec.periods)) params[name] = count;
+    for (const name of Object.keys(spec.levels)) params[name] = { type: "number" };
+    return closed({ type: { const: type }, params: closed(params), enter: direction, exit: direction, timeframe }, ["type"]);
+  });
+
+  const indicators = listIndicators().map((definition) => {
+    const properties: Record<string, unknown> = {
+      ind: { const: definition.name },
+      indicator: { const: definition.name },
+    };
+    for (const [name, spec] of Object.entries(definition.params)) {
+      properties[name] = {
+        type: spec.integer ? "integer" : "number",
+        minimum: spec.min,
+        ...(spec.max !== undefined ? { maximum: spec.max } : {}),
+        default: spec.default,
+        description: spec.description,
+      };
+    }
+    properties.output = { enum: definition.outputs };
+    if (hasSource(definition)) properties.source = { enum: PRICE_FIELDS };
+    return {
+      ...closed(properties),
+      title: definition.label,
+      description: definition.description,
+      anyOf: [{ required: ["ind"] }, { required: ["indicator"] }],
+    };
+  });
+
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $id: DSL_SCHEMA_ID,
+    title: "StrategyDSL",
+    description: `Strategy definition for /api/strategy/run, schema version ${DSL_SCHEMA_VERSION}.`,
+    type: "object",
+    properties: {
+      $schema: { type: "string" },
+      version: { const: DSL_SCHEMA_VERSION },
+      name: { type: "string" },
+      direction: { enum: DIRECTIONS },
+      capital: positive,
+      costs: ref("costs"),
+      risk: ref("risk"),
+      sizing: ref("sizing"),
+      scaling: ref("scaling"),
+      holding: ref("holding"),
+      filters: { type: "array", items: ref("filter") },
+      fill: { enum: FILL_POLICIES },
+      rules: { type: "array", items: ref("rule") },
+      entry: ref("condition"),
+      exit: ref("condition"),
+    },
+    anyOf: [{ required: ["rules"], properties: { rules: { minItems: 1 } } }, { required: ["entry"] }],
+    additionalProperties: false,
+    $defs: {
+      costs: closed({
+        commission: nonNegative,
+        commissionBps: nonNegative,
+        slippage: {
+          oneOf: [
+            nonNegative,
+            closed({ type: { const: "bps" }, value: nonNegative }, ["type"]),
+            closed({ type: { const: "range" }, fraction: { type: "number", minimum: 0, maximum: 1 } }, ["type"]),
+          ],
+        },
+      }),
+      risk: closed({
+        stopLossPct: positive,
+        takeProfitPct: positive,
+        trailingStopPct: positive,
+        atrStop: closed({ period: count, multiple: positive }, ["multiple"]),
+      }),
+      sizing: {
+        oneOf: [
+          closed({ type: { const: "fixed_fraction" }, fraction: positive }, ["type"]),
+          closed({ type: { const: "fixed_shares" }, shares: positive }, ["type"]),
+          closed(
+            { type: { const: "volatility" }, measure: { enum: ["atr", "stdev"] }, period: count, riskPct: positive, maxFraction: positive },
+            ["type"],
+          ),
+          closed(
+            { type: { const: "kelly" }, multiplier: positive, maxFraction: fraction, minTrades: count, initialFraction: fraction },
+            ["type"],
+          ),
+        ],
+      },
+      scaling: closed({ maxUnits: count, exitFractions: { type: "array", items: fraction } }),
+      holding: closed({ maxBars: count, minBars: count, cooldownBars: count }),
+      filter: {
+        oneOf: [
+          closed(
+            {
+              type: { const: "day_of_week" },
+              days: oneOrMany({
+                oneOf: [
+                  { type: "integer", minimum: 0, maximum: 6 },
+                  { type: "string", pattern: "^(?:[Ss]un|[Mm]on|[Tt]ue|[Ww]ed|[Tt]hu|[Ff]ri|[Ss]at)" },
+                ],
+              }),
+            },
+            ["type", "days"],
+          ),
+          closed({ type: { const: "month" }, months: oneOrMany({ type: "integer", minimum: 1, maximum: 12 }) }, ["type", "months"]),
+          closed(
+            {
+              type: { const: "date_window" },
+              mode: { enum: ["include", "exclude"] },
+              windows: oneOrMany(closed({ from: date, to: date }, ["from", "to"])),
+            },
+            ["type", "windows"],
+          ),
+          {
+            ...closed({ type: { const: "before_date" }, dates: oneOrMany(date), date, days: count }, ["type", "days"]),
+            anyOf: [{ required: ["dates"] }, { required: ["date"] }],
+          },
+          closed(
+            {
+              type: { const: "regime" },
+              ticker: { type: "string", minLength: 1 },
+              indicator: { enum: ["sma", "ema"] },
+              period: count,
+              condition: { enum: ["above", "below"] },
+            },
+            ["type", "ticker"],
+          ),
+        ],
+      },
+      rule: { oneOf: [...legacyRules, ref("compareRule")] },
+      compareRule: {
+        ...closed(
+          {
+            type: { const: "compare" },
+            left: ref("operand"),
+            op: { enum: COMPARE_OPS },
+            right: { oneOf: [ref("operand"), ref("bounds")] },
+            side: { enum: SIDES },
+            signal: { enum: ["enter", "exit"] },
+            timeframe,
+          },
+          ["left", "op", "right"],
+        ),
+        if: { properties: { op: { const: "between" } } },
+        then: { properties: { right: ref("bounds") } },
+        else: { properties: { right: ref("operand") } },
+      },
+      bounds: closed({ lower: ref("operand"), upper: ref("operand") }, ["lower", "upper"]),
+      operand: { oneOf: [{ type: "number" }, { enum: PRICE_FIELDS }, ref("indicator")] },
+      indicator: { oneOf: indicators },
+      condition: {
+        oneOf: [
+          closed({ all: { type: "array", items: ref("condition"), minItems: 1 }, side: { enum: SIDES } }, ["all"]),
+          closed({ any: { type: "array", items: ref("condition"), minItems: 1 }, side: { enum: SIDES } }, ["any"]),
+          closed({ not: ref("condition"), side: { enum: SIDES } }, ["not"]),
+          ref("rule"),
+        ],
+      },
+    },
+  };
+}
+
+type Report = {
+  error: (path: string, message: string) => void;
+  warn: (path: string, message: string) => void;
+  /** Input normaliseDsl coerces or ignores: an error in strict mode, a warning otherwise. */
+  lenient: (path: string, message: string) => void;
+};
+
+type NumberSpec = {
+  min?: number;
+  /** Exclusive lower bound. */
+  above?: number;
+  max?: number;
+  integer?: boolean;
+  required?: boolean;
+  /** Out-of-range values are clamped by the normaliser rather than dropped. */
+  clamped?: boolean;
+};
+
+function at(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "string") return `"${value}"`;
+  return String(value);
+}
+
+function isIsoDate(value: unknown): boolean {
+  return typeof value === "string" && ISO_DATE.test(value.trim());
+}
+
+/** Optimal string alignment distance: edits, with swapping two adjacent letters counting as one. */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i ? (j ? 0 : i) : j)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/** `; did you mean "x"?` when a candidate is within a typo's reach of `value`, otherwise empty. */
+function suggestion(value: unknown, candidates: readonly string[]): string {
+  if (typeof value !== "string" || !value) return "";
+  let best = "";
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) [best, bestDistance] = [candidate, distance];
+  }
+  return bestDistance <= Math.min(2, Math.max(1, Math.floor(value.length / 3))) ? `; did you mean "${best}"?` : "";
+}
+
+function checkFields(report: Report, raw: Record<string, unknown>, path: string, known: readonly string[]): void {
+  for (const key of Object.keys(raw)) {
+    if (!known.includes(key)) report.lenient(at(path, key), `Unknown field "${key}" is ignored${suggestion(key, known)}`);
+  }
+}
+
+function checkObject(report: Report, raw: unknown, path: string, known: readonly string[]): Record<string, any> | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    report.error(path, `Expected an object, got ${describe(raw)}`);
+    return undefined;
+  }
+  checkFields(report, raw, path, known);
+  return raw;
+}
+
+function checkNumber(report: Report, raw: unknown, path: string, spec: NumberSpec = {}): number | undefined {
+  if (raw === undefined) {
+    if (spec.required) report.error(path, "Required");
+    return undefined;
+  }
+  let n: number;
+  if (typeof raw === "number" && Number.isFinite(raw)) {
+    n = raw;
+  } else if (typeof raw === "string" && raw.trim() !== "" && Number.isFinite(Number(raw))) {
+    n = Number(raw);
+    report.lenient(path, `Expected a number, got the string ${describe(raw)}`);
+  } else {
+    report.error(path, `Expected a number, got ${describe(raw)}`);
+    return undefined;
+  }
+  const outOfRange = spec.clamped ? report.lenient : report.error;
+  if (spec.min !== undefined && n < spec.min) outOfRange(path, `Must be at least ${spec.min}, got ${n}`);
+  else if (spec.above !== undefined && n <= spec.above) outOfRange(path, `Must be greater than ${spec.above}, got ${n}`);
+  else if (spec.max !== undefined && n > spec.max) outOfRange(path, `Must be at most ${spec.max}, got ${n}`);
+  else if (spec.integer && !Number.isInteger(n)) report.lenient(path, `Expected a whole number, got ${n}`);
+  return n;
+}
+
+function checkOneOf(report: Report, raw: unknown, path: string, values: readonly string[], required = false): boolean {
+  if (raw === undefined) {
+    if (required) report.error(path, "Required");
+    return false;
+  }
+  if (values.includes(raw as string)) return true;
+  const expected = values.map((value) => `"${value}"`).join(", ");
+  report.error(path, `Expected one of ${expected}, got ${describe(raw)}${suggestion(raw, values)}`);
+  return false;
+}
+
+/** A value or list of values; invalid entries are dropped by the normalisers, so each is an error. */
+function checkList(report: Report, raw: unknown, path: string, valid: (value: unknown) => boolean, expected: string): void {
+  if (raw === undefined) return report.error(path, "Required");
+  const values = Array.isArray(raw) ? raw : [raw];
+  if (!values.length) return report.error(path, "Needs at least one value");
+  values.forEach((value, i) => {
+    if (!valid(value)) report.error(Array.isArray(raw) ? at(path, i) : path, `Expected ${expected}, got ${describe(value)}`);
+  });
+}
+
+function checkCosts(report: Report, raw: unknown, path: string): void {
+  const costs = checkObject(report, raw, path, ["commission", "commissionBps", "slippage"]);
+  if (!costs) return;
+  checkNumber(report, costs.commission, at(path, "commission"), { min: 0, clamped: true });
+  checkNumber(report, costs.commissionBps, at(path, "commissionBps"), { min: 0, clamped: true });
+  const slippage = costs.slippage;
+  const slippagePath = at(path, "slippage");
+  if (!isObject(slippage)) {
+    checkNumber(report, slippage, slippagePath, { min: 0, clamped: true });
+  } else if (checkOneOf(report, slippage.type, at(slippagePath, "type"), ["bps", "range"], true)) {
+    const field = slippage.type === "bps" ? "value" : "fraction";
+    checkFields(report, slippage, slippagePath, ["type", field]);
+    checkNumber(report, slippage[field], at(slippagePath, field), { min: 0, max: field === "fraction" ? 1 : undefined, clamped: true });
+  }
+}
+
+function checkRisk(report: Report, raw: unknown, path: string): void {
+  const risk = checkObject(report, raw, path, ["stopLossPct", "takeProfitPct", "trailingStopPct", "atrStop"]);
+  if (!risk) return;
+  for (const field of ["stopLossPct", "takeProfitPct", "trailingStopPct"]) {
+    checkNumber(report, risk[field], at(path, field), { above: 0 });
+  }
+  const atrStop = checkObject(report, risk.atrStop, at(path, "atrStop"), ["period", "multiple"]);
+  if (atrStop) {
+    checkNumber(report, atrStop.period, at(path, "atrStop.period"), { min: 1, integer: true });
+    checkNumber(report, atrStop.multiple, at(path, "atrStop.multiple"), { above: 0, required: true });
+  }
+}
+
+function checkSizing(report: Report, raw: unknown, path: string): void {
+  if (raw === undefined) return;
+  if (!isObject(raw)) return report.error(path, `Expected an object, got ${describe(raw)}`);
+  if (!checkOneOf(report, raw.type, at(path, "type"), SIZING_TYPES, true)) return;
+  const type = raw.type as PositionSizing["type"];
+  checkFields(report, raw, path, ["type", ...SIZING_FIELDS[type]]);
+  for (const field of SIZING_FIELDS[type]) {
+    if (field === "measure") checkOneOf(report, raw.measure, at(path, field), ["atr", "stdev"]);
+    else if (field === "period" || field === "minTrades") checkNumber(report, raw[field], at(path, field), { above: 0, integer: true });
+    else if (type === "kelly" && (field === "maxFraction" || field === "initialFraction")) checkNumber(report, raw[field], at(path, field), { above: 0, max: 1, clamped: true });
+    else checkNumber(report, raw[field], at(path, field), { above: 0 });
+  }
+}
+
+function checkScaling(report: Report, raw: unknown, path: string): void {
+  const scaling = checkObject(report, raw, path, ["maxUnits", "exitFractions"]);
+  if (!scaling) return;
+  checkNumber(report, scaling.maxUnits, at(path, "maxUnits"), { min: 1, integer: true, clamped: true });
+  if (scaling.exitFractions === undefined) return;
+  if (!Array.isArray(scaling.exitFractions)) {
+    return report.error(at(path, "exitFractions"), `Expected an array, got ${describe(scaling.exitFractions)}`);
+  }
+  scaling.exitFractions.forEach((value: unknown, i: number) => {
+    checkNumber(report, value, at(path, `exitFractions.${i}`), { above: 0, max: 1 });
+  });
+}
+
+function checkHolding(report: Report, raw: unknown, path: string): void {
+  const holding = checkObject(report, raw, path, ["maxBars", "minBars", "cooldownBars"]);
+  if (!holding) return;
+  const [maxBars, minBars] = ["maxBars", "minBars", "cooldownBars"].map((field) =>
+    checkNumber(report, holding[field], at(path, field), { min: 1, integer: true }),
+  );
+  if (maxBars !== undefined && minBars !== undefined && minBars >= maxBars) {
+    report.warn(at(path, "minBars"), `minBars (${minBars}) is not below maxBars (${maxBars}), so signal exits never apply`);
+  }
+}
+
+function checkFilter(report: Report, raw: unknown, path: string): void {
+  if (!isObject(raw)) return report.error(path, `Expected a filter object, got ${describe(raw)}`);
+  if (!checkOneOf(report, raw.type, at(path, "type"), FILTER_TYPES, true)) return;
+  const type = raw.type as EntryFilter["type"];
+  checkFields(report, raw, path, ["type", ...FILTER_FIELDS[type]]);
+  switch (type) {
+    case "day_of_week":
+      return checkList(
+        report,
+        raw.days,
+        at(path, "days"),
+        (value) =>
+          (typeof value === "string" && DAY_NAMES.includes(value.trim().slice(0, 3).toLowerCase())) ||
+          ((typeof value === "number" || typeof value === "string") && [0, 1, 2, 3, 4, 5, 6].includes(Number(value))),
+        'a weekday (0 = Sunday ... 6 = Saturday, or a name such as "mon")',
+      );
+    case "month":
+      return checkList(
+        report,
+        raw.months,
+        at(path, "months"),
+        (value) => (typeof value === "number" || typeof value === "string") && Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 12,
+        "a month (1-12)",
+      );
+    case "date_window":
+      checkOneOf(report, raw.mode, at(path, "mode"), ["include", "exclude"]);
+      return checkList(
+        report,
+        raw.windows,
+        at(path, "windows"),
+        (window: any) => isObject(window) && isIsoDate(window.from) && isIsoDate(window.to) && window.from.trim() <= window.to.trim(),
+        "a { from, to } range of YYYY-MM-DD dates",
+      );
+    case "before_date":
+      checkList(report, raw.dates ?? raw.date, at(path, raw.dates === undefined && raw.date !== undefined ? "date" : "dates"), isIsoDate, "a YYYY-MM-DD date");
+      checkNumber(report, raw.days, at(path, "days"), { min: 1, integer: true, required: true });
+      return;
+    case "regime":
+      if (typeof raw.ticker !== "string" || !raw.ticker.trim()) report.error(at(path, "ticker"), `Expected a ticker, got ${describe(raw.ticker)}`);
+      checkOneOf(report, raw.indicator, at(path, "indicator"), ["sma", "ema"]);
+      checkNumber(report, raw.period, at(path, "period"), { min: 1, integer: true });
+      checkOneOf(report, raw.condition, at(path, "condition"), ["above", "below"]);
+  }
+}
+
+function checkOperand(report: Report, raw: unknown, path: string): void {
+  if (raw === undefined) return report.error(path, "Required");
+  if (typeof raw === "number" && Number.isFinite(raw)) return;
+  if (typeof raw === "string") {
+    if (PRICE_FIELDS.includes(raw as (typeof PRICE_FIELDS)[number])) return;
+    if (raw.trim() !== "" && Number.isFinite(Number(raw))) return report.lenient(path, `Expected a number, got the string ${describe(raw)}`);
+    const hint = suggestion(raw, PRICE_FIELDS);
+    return report.error(
+      path,
+      hint ? `Unknown price field ${describe(raw)}${hint}` : `Expected a number, a price field or an indicator, got ${describe(raw)}`,
+    );
+  }
+  if (!isObject(raw)) return report.error(path, `Expected a number, a price field or an indicator, got ${describe(raw)}`);
+
+  const key = raw.ind === undefined && raw.indicator !== undefined ? "indicator" : "ind";
+  const name = raw[key];
+  if (typeof name !== "string" || !name) return report.error(at(path, key), "Required: the indicator name");
+  const definition = getIndicator(name.toLowerCase());
+  if (!definition) {
+    const names = listIndicators().map((indicator) => indicator.name);
+    return report.error(at(path, key), `Unknown indicator ${describe(name)}${suggestion(name, names)}`);
+  }
+  if (definition.name !== name) report.lenient(at(path, key), `Indicator names are lowercase: "${definition.name}"`);
+  checkFields(report, raw, path, ["ind", "indicator", ...Object.keys(definition.params), "output", "source"]);
+  for (const [param, spec] of Object.entries(definition.params)) {
+    checkNumber(report, raw[param], at(path, param), { min: spec.min, max: spec.max, integer: spec.integer, clamped: true });
+  }
+  if (raw.output !== undefined) checkOneOf(report, raw.output, at(path, "output"), definition.outputs);
+  if (raw.source !== undefined) {
+    if (hasSource(definition)) checkOneOf(report, raw.source, at(path, "source"), PRICE_FIELDS);
+    else report.lenient(at(path, "source"), `${definition.name} does not read a source series; source is ignored`);
+  }
+}
+
+function checkCompareRule(report: Report, raw: Record<string, any>, path: string, flat: boolean): void {
+  checkFields(report, raw, path, ["type", "left", "op", "right", "side", "signal", "timeframe"]);
+  checkOperand(report, raw.left, at(path, "left"));
+  checkOneOf(report, raw.op, at(path, "op"), COMPARE_OPS, true);
+  if (raw.op === "between") {
+    if (!isObject(raw.right)) {
+      report.error(at(path, "right"), `Expected { lower, upper } bounds for "between", got ${describe(raw.right)}`);
+    } else {
+      checkFields(report, raw.right, at(path, "right"), ["lower", "upper"]);
+      checkOperand(report, raw.right.lower, at(path, "right.lower"));
+      checkOperand(report, raw.right.upper, at(path, "right.upper"));
+    }
+  } else {
+    checkOperand(report, raw.right, at(path, "right"));
+  }
+  checkOneOf(report, raw.side, at(path, "side"), SIDES);
+  checkOneOf(report, raw.signal, at(path, "signal"), ["enter", "exit"]);
+  checkOneOf(report, raw.timeframe, at(path, "timeframe"), TIMEFRAMES);
+  if (!flat && raw.signal !== undefined) {
+    report.lenient(at(path, "signal"), "signal only applies to flat rules; entry and exit trees ignore it");
+  }
+}
+
+function checkRule(report: Report, raw: unknown, path: string, flat: boolean): void {
+  if (!isObject(raw)) return report.error(path, `Expected a rule object, got ${describe(raw)}`);
+  if (raw.type === "compare" || (raw.type === undefined && "left" in raw && "op" in raw)) {
+    return checkCompareRule(report, raw, path, flat);
+  }
+  if (raw.type === undefined) return report.error(at(path, "type"), "Required: a rule type, or left/op/right for a comparison");
+  if (!RULE_TYPES.includes(raw.type)) {
+    return report.error(at(path, "type"), `Unknown rule type ${describe(raw.type)}${suggestion(raw.type, RULE_TYPES)}`);
+  }
+
+  const spec = RULE_SPECS[raw.type as Exclude<RuleType, "compare">];
+  const paramsPath = at(path, "params");
+  const names = [...Object.keys(spec.periods), ...Object.keys(spec.levels)];
+  checkFields(report, raw, path, ["type", "params", "enter", "exit", "timeframe"]);
+  const params = checkObject(report, raw.params, paramsPath, [...names, "enter", "exit", "timeframe"]) ?? {};
+
+  const values: Record<string, number | undefined> = {};
+  for (const name of Object.keys(spec.periods)) values[name] = checkNumber(report, params[name], at(paramsPath, name), { min: 1, integer: true });
+  for (const name of Object.keys(spec.levels)) values[name] = checkNumber(report, params[name], at(paramsPath, name));
+  for (const key of ["enter", "exit"]) {
+    const inParams = params[key] !== undefined;
+    checkOneOf(report, inParams ? params[key] : raw[key], inParams ? at(paramsPath, key) : at(path, key), spec.directions);
+  }
+  const inParams = params.timeframe !== undefined;
+  checkOneOf(report, inParams ? params.timeframe : raw.timeframe, inParams ? at(paramsPath, "timeframe") : at(path, "timeframe"), TIMEFRAMES);
+
+  // Defaults stand in for left-out parameters, so `{ fast: 30 }` is caught against the default slow 20.
+  const [lower, upper] = spec.ordered;
+  const defaults: Record<string, number> = { ...spec.periods, ...spec.levels };
+  const describeValue = (name: string) => (values[name] === undefined ? `${defaults[name]}, the default` : String(values[name]));
+  if ((values[lower] ?? defaults[lower]) >= (values[upper] ?? defaults[upper])) {
+    report.warn(at(paramsPath, values[lower] === undefined ? upper : lower), `${lower} (${describeValue(lower)}) is not below ${upper} (${describeValue(upper)})`);
+  }
+}
+
+function checkCondition(report: Report, raw: unknown, path: string): void {
+  if (!isObject(raw)) return report.error(path, `Expected a condition object, got ${describe(raw)}`);
+  if (Array.isArray(raw.all) || Array.isArray(raw.any)) {
+    const key = Array.isArray(raw.all) ? "all" : "any";
+    checkFields(report, raw, path, [key, "side"]);
+    checkOneOf(report, raw.side, at(path, "side"), SIDES);
+    if (!raw[key].length) report.error(at(path, key), "Needs at least one condition");
+    raw[key].forEach((child: unknown, i: number) => checkCondition(report, child, at(path, `${key}.${i}`)));
+    return;
+  }
+  if ("not" in raw) {
+    checkFields(report, raw, path, ["not", "side"]);
+    checkOneOf(report, raw.side, at(path, "side"), SIDES);
+    return checkCondition(report, raw.not, at(path, "not"));
+  }
+  for (const key of ["all", "any"]) {
+    if (raw[key] !== undefined) return report.error(at(path, key), `Expected an array of conditions, got ${describe(raw[key])}`);
+  }
+  checkRule(report, raw, path, false);
+}
+
+function checkStrategy(report: Report, dsl: Record<string, any>): void {
+  checkFields(report, dsl, "", STRATEGY_FIELDS);
+  if (dsl.version !== undefined && dsl.version !== DSL_SCHEMA_VERSION) {
+    report.error("version", `Unsupported schema version ${describe(dsl.version)}; this server implements version ${DSL_SCHEMA_VERSION}`);
+  }
+  if (dsl.$schema !== undefined && dsl.$schema !== DSL_SCHEMA_ID) {
+    report.warn("$schema", `Validated against ${DSL_SCHEMA_ID}, not ${describe(dsl.$schema)}`);
+  }
+  if (dsl.name !== undefined && typeof dsl.name !== "string") report.error("name", `Expected a string, got ${describe(dsl.name)}`);
+  checkOneOf(report, dsl.direction, "direction", DIRECTIONS);
+  checkNumber(report, dsl.capital, "capital", { above: 0 });
+  checkOneOf(report, dsl.fill, "fill", FILL_POLICIES);
+  checkCosts(report, dsl.costs, "costs");
+  checkRisk(report, dsl.risk, "risk");
+  checkSizing(report, dsl.sizing, "sizing");
+  checkScaling(report, dsl.scaling, "scaling");
+  checkHolding(report, dsl.holding, "holding");
+  if (dsl.filters !== undefined) {
+    if (Array.isArray(dsl.filters)) dsl.filters.forEach((filter: unknown, i: number) => checkFilter(report, filter, at("filters", i)));
+    else checkFilter(report, dsl.filters, "filters");
+  }
+
+  if (dsl.rules !== undefined && !Array.isArray(dsl.rules)) report.error("rules", `Expected an array, got ${describe(dsl.rules)}`);
+  const rules: unknown[] = Array.isArray(dsl.rules) ? dsl.rules : [];
+  rules.forEach((rule, i) => checkRule(report, rule, at("rules", i), true));
+  if (dsl.entry !== undefined) checkCondition(report, dsl.entry, "entry");
+  if (dsl.exit !== undefined) checkCondition(report, dsl.exit, "exit");
+  if (!rules.length && dsl.entry === undefined) report.error("rules", "A strategy needs at least one rule or an entry condition");
+}
+
+/**
+ * Checks a raw DSL against the schema before normaliseDsl sees it. Errors are input the normaliser
+ * would drop or replace with a default, so the strategy would not run as written; warnings are input
+ * it runs as given but that is probably a mistake, such as a fast average that isn't faster than the
+ * slow one, plus (outside strict mode) input it coerces or ignores.
+ */
+export function validateDsl(raw: unknown, options: ValidateOptions = {}): DslValidation {
+  const errors: DslIssue[] = [];
+  const warnings: DslIssue[] = [];
+  const report: Report = {
+    error: (path, message) => errors.push({ path, message }),
+    warn: (path, message) => warnings.push({ path, message }),
+    lenient: (path, message) => (options.strict ? errors : warnings).push({ path, message }),
+  };
+  if (isObject(raw)) checkStrategy(report, raw);
+  else report.error("", "Strategy DSL must be an object");
+  return { valid: !errors.length, version: DSL_SCHEMA_VERSION, errors, warnings };
+}
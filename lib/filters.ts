@@ -0,0 +1,167 @@
+// lib/filters.ts
+import type { Row } from "../types/row";
+import { EMA, SMA } from "./indicators";
+
+const MS_PER_DAY = 86_400_000;
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Calendar conditions that gate entries. An entry signal only counts on bars whose date passes
+ * every filter; exits are never filtered.
+ * - "day_of_week": allowed weekdays, 0 = Sunday ... 6 = Saturday.
+ * - "month": allowed months, 1 = January ... 12 = December.
+ * - "date_window": inclusive date ranges to skip ("exclude", the default) or to trade only within ("include").
+ * - "before_date": skip the last `days` calendar days before each date, e.g. ahead of earnings.
+ * - "regime": trade only while a reference ticker (e.g. SPY) closes above or below its own moving average.
+ */
+export type EntryFilter =
+  | { type: "day_of_week"; days: number[] }
+  | { type: "month"; months: number[] }
+  | { type: "date_window"; mode: "include" | "exclude"; windows: { from: string; to: string }[] }
+  | { type: "before_date"; dates: string[]; days: number }
+  | RegimeFilter;
+
+export type RegimeFilter = {
+  type: "regime";
+  ticker: string;
+  indicator: "sma" | "ema";
+  period: number;
+  condition: "above" | "below";
+};
+
+/** Reference series for regime filters, keyed by upper-case ticker. */
+export type ReferenceSeries = Record<string, Pick<Row, "date" | "close">[]>;
+
+export const FILTER_TYPES: EntryFilter["type"][] = ["day_of_week", "month", "date_window", "before_date", "regime"];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isoDate(value: unknown): string | null {
+  return typeof value === "string" && ISO_DATE.test(value.trim()) ? value.trim() : null;
+}
+
+function dayOfWeek(value: unknown): number | null {
+  if (typeof value === "string") {
+    const index = DAY_NAMES.indexOf(value.trim().slice(0, 3).toLowerCase());
+    if (index >= 0) return index;
+  }
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= 6 ? n : null;
+}
+
+function listOf<T>(raw: unknown, parse: (value: unknown) => T | null): T[] {
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  return values.map(parse).filter((value): value is T => value !== null);
+}
+
+function normaliseFilter(raw: any): EntryFilter | null {
+  switch (raw?.type) {
+    case "day_of_week": {
+      const days = listOf(raw.days, dayOfWeek);
+      return days.length ? { type: "day_of_week", days } : null;
+    }
+    case "month": {
+      const months = listOf(raw.months, (value) => {
+        const n = Number(value);
+        return Number.isInteger(n) && n >= 1 && n <= 12 ? n : null;
+      });
+      return months.length ? { type: "month", months } : null;
+    }
+    case "date_window": {
+      const windows = listOf(raw.windows, (window: any) => {
+        const from = isoDate(window?.from);
+        const to = isoDate(window?.to);
+        return from && to && from <= to ? { from, to } : null;
+      });
+      if (!windows.length) return null;
+      return { type: "date_window", mode: raw.mode === "include" ? "include" : "exclude", windows };
+    }
+    case "before_date": {
+      const dates = listOf(raw.dates ?? raw.date, isoDate);
+      const days = Math.floor(Number(raw.days));
+      return dates.length && days > 0 ? { type: "before_date", dates, days } : null;
+    }
+    case "regime": {
+      const ticker = typeof raw.ticker === "string" ? raw.ticker.trim().toUpperCase() : "";
+      const period = Math.floor(Number(raw.period ?? 200));
+      if (!ticker || !(period > 0)) return null;
+      return {
+        type: "regime",
+        ticker,
+        indicator: raw.indicator === "ema" ? "ema" : "sma",
+        period,
+        condition: raw.condition === "below" ? "below" : "above",
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export function normaliseFilters(raw: unknown): EntryFilter[] {
+  return listOf(raw, normaliseFilter);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+/** The reference tickers a set of filters needs loaded. */
+export function regimeTickers(filters: EntryFilter[] | undefined): string[] {
+  const tickers = (filters ?? []).flatMap((filter) => (filter.type === "regime" ? [filter.ticker] : []));
+  return Array.from(new Set(tickers));
+}
+
+/**
+ * Evaluates a regime filter on its reference series and aligns the result with `rows`: each row takes
+ * the regime of the latest reference bar on or before its date. Entries are blocked while the
+ * reference is missing or its moving average is still warming up.
+ */
+export function regimeMask(filter: RegimeFilter, rows: Pick<Row, "date">[], reference: ReferenceSeries[string] = []): boolean[] {
+  const closes = reference.map((bar) => bar.close);
+  const average = filter.indicator === "ema" ? EMA(closes, filter.period) : SMA(closes, filter.period);
+  const inRegime = closes.map((close, i) => {
+    if (!Number.isFinite(average[i])) return false;
+    return filter.condition === "above" ? close > average[i] : close < average[i];
+  });
+
+  let j = -1;
+  return rows.map((row) => {
+    while (j + 1 < reference.length && reference[j + 1].date <= row.date) j++;
+    return j >= 0 && inRegime[j];
+  });
+}
+
+function passes(filter: Exclude<EntryFilter, RegimeFilter>, date: string): boolean {
+  switch (filter.type) {
+    case "day_of_week":
+      return filter.days.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+    case "month":
+      return filter.months.includes(Number(date.slice(5, 7)));
+    case "date_window": {
+      const inside = filter.windows.some(({ from, to }) => date >= from && date <= to);
+      return filter.mode === "include" ? inside : !inside;
+    }
+    case "before_date":
+      return !filter.dates.some((target) => {
+        const gap = daysBetween(date, target);
+        return gap > 0 && gap <= filter.days;
+      });
+  }
+}
+
+/** Whether entries are allowed on each row. Regime filters read their series from `references`. */
+export function entryFilterMask(
+  filters: EntryFilter[],
+  rows: Pick<Row, "date">[],
+  references: ReferenceSeries = {},
+): boolean[] {
+  const regimes = filters.flatMap((filter) =>
+    filter.type === "regime" ? [regimeMask(filter, rows, references[filter.ticker])] : [],
+  );
+  return rows.map(
+    (row, i) =>
+      regimes.every((mask) => mask[i]) &&
+      filters.every((filter) => filter.type === "regime" || passes(filter, row.date)),
+  );
+}
@@ -0,0 +1,428 @@
+// lib/indicator-registry.ts
+import type { Row } from "../types/row";
+import {
+  ADX,
+  ATR,
+  BollingerBands,
+  CCI,
+  Donchian,
+  EMA,
+  Keltner,
+  MACD,
+  OBV,
+  ROC,
+  RSI,
+  RollingVWAP,
+  SMA,
+  StdDev,
+  Stochastic,
+  WilliamsR,
+} from "./indicators";
+import {
+  StreamingADX,
+  StreamingATR,
+  StreamingBollingerBands,
+  StreamingCCI,
+  StreamingDonchian,
+  StreamingEMA,
+  StreamingKeltner,
+  StreamingMACD,
+  StreamingOBV,
+  StreamingROC,
+  StreamingRSI,
+  StreamingRollingVWAP,
+  StreamingSMA,
+  StreamingStdDev,
+  StreamingStochastic,
+  StreamingWilliamsR,
+} from "./streaming-indicators";
+
+/** A column of `Row`; "vwap" falls back to the typical price on bars without one. */
+export type PriceField = "open" | "high" | "low" | "close" | "volume" | "vwap";
+
+export const PRICE_FIELDS: PriceField[] = ["open", "high", "low", "close", "volume", "vwap"];
+
+/** A numeric parameter. Values outside `min`..`max` are clamped; integer parameters are rounded. */
+export type ParamSpec = { default: number; min: number; max?: number; integer: boolean; description: string };
+
+/**
+ * An indicator the DSL can reference by `name`. `compute` receives one series per entry of `inputs`,
+ * in order, where "source" stands for the price field the reference picks (close by default), and
+ * returns every line in `outputs`; the first output is the default one. `stream`, when given, is the
+ * incremental form: it returns a function taking one value per input for the next bar and returning
+ * every output on that bar, matching `compute`.
+ */
+export type IndicatorDefinition = {
+  name: string;
+  label: string;
+  description: string;
+  params: Record<string, ParamSpec>;
+  inputs: (PriceField | "source")[];
+  outputs: string[];
+  compute: (inputs: number[][], params: Record<string, number>) => Record<string, number[]>;
+  stream?: (params: Record<string, number>) => (inputs: number[]) => Record<string, number>;
+};
+
+const registry = new Map<string, IndicatorDefinition>();
+
+/** Adds an indicator, or replaces the one registered under the same name. */
+export function registerIndicator(definition: IndicatorDefinition): void {
+  if (!/^[a-z][a-z0-9_]*$/.test(definition.name)) {
+    throw new Error(`Indicator names must be lowercase identifiers, got "${definition.name}"`);
+  }
+  if (!definition.outputs.length) throw new Error(`Indicator "${definition.name}" declares no outputs`);
+  registry.set(definition.name, definition);
+  // Series computed by a previous definition of the same name are stale.
+  for (const key of Array.from(memo.keys())) {
+    const indicator = key.slice(key.lastIndexOf("|") + 1);
+    if (indicator === definition.name || indicator.startsWith(`${definition.name}_`)) memo.delete(key);
+  }
+}
+
+export function getIndicator(name: string): IndicatorDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listIndicators(): IndicatorDefinition[] {
+  return Array.from(registry.values());
+}
+
+/** Whether the indicator reads a selectable `source` field. */
+export function hasSource(definition: IndicatorDefinition): boolean {
+  return definition.inputs.includes("source");
+}
+
+/** Reads each declared parameter from `raw`, falling back to its default and clamping to its range. */
+export function normaliseParams(definition: IndicatorDefinition, raw: Record<string, unknown> = {}): Record<string, number> {
+  const params: Record<string, number> = {};
+  for (const [name, spec] of Object.entries(definition.params)) {
+    const value = raw[name];
+    let n = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+    if (!Number.isFinite(n)) n = spec.default;
+    if (spec.integer) n = Math.round(n);
+    params[name] = Math.min(spec.max ?? Infinity, Math.max(spec.min, n));
+  }
+  return params;
+}
+
+export function priceOf(row: Row, field: PriceField): number {
+  return field === "vwap" ? row.vwap ?? (row.high + row.low + row.close) / 3 : row[field];
+}
+
+export function priceSeries(rows: Row[], field: PriceField): number[] {
+  return rows.map((row) => priceOf(row, field));
+}
+
+/** Key of an indicator's series, e.g. `rsi_14`, `sma_50_high` or `bollinger_20_2`; parameters in declaration order. */
+export function indicatorKey(definition: IndicatorDefinition, params: Record<string, number>, source: PriceField = "close"): string {
+  const values = Object.keys(definition.params).map((name) => params[name]);
+  return [definition.name, ...values, ...(hasSource(definition) && source !== "close" ? [source] : [])].join("_");
+}
+
+const MAX_MEMO_ENTRIES = 500;
+const memo = new Map<string, Record<string, number[]>>();
+const seriesKeys = new WeakMap<Row[], string>();
+
+/**
+ * Identifies a bar series by ticker and date range. A checksum of the bars is added so differently
+ * adjusted copies of the same range, or test fixtures sharing a ticker, don't collide.
+ */
+function seriesKey(rows: Row[]): string {
+  let key = seriesKeys.get(rows);
+  if (key === undefined) {
+    const checksum = rows.reduce(
+      (sum, row, i) => sum + (i + 1) * (row.open + row.high + row.low + row.close + (row.vwap ?? 0)) + row.volume,
+      0,
+    );
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    key = [first?.ticker ?? "", first?.date ?? "", last?.date ?? "", rows.length, checksum.toPrecision(15)].join("|");
+    seriesKeys.set(rows, key);
+  }
+  return key;
+}
+
+/**
+ * Every output of `name` on `rows`, memoized per (ticker, range, params) so parameter sweeps and
+ * strategies using the same indicator in several rules compute it once. The least recently used
+ * series are dropped beyond MAX_MEMO_ENTRIES. Callers must not mutate the returned arrays.
+ */
+export function computeIndicator(
+  rows: Row[],
+  name: string,
+  rawParams: Record<string, unknown> = {},
+  source: PriceField = "close",
+): Record<string, number[]> {
+  const definition = registry.get(name);
+  if (!definition) throw new Error(`Unknown indicator: ${name}`);
+  const params = normaliseParams(definition, rawParams);
+  const key = `${seriesKey(rows)}|${indicatorKey(definition, params, source)}`;
+  const cached = memo.get(key);
+  if (cached) {
+    memo.delete(key);
+    memo.set(key, cached);
+    return cached;
+  }
+  const inputs = definition.inputs.map((input) => priceSeries(rows, input === "source" ? source : input));
+  const result = definition.compute(inputs, params);
+  memo.set(key, result);
+  if (memo.size > MAX_MEMO_ENTRIES) memo.delete(memo.keys().next().value!);
+  return result;
+}
+
+export function clearIndicatorMemo(): void {
+  memo.clear();
+}
+
+/**
+ * A bar-by-bar instance of `name`: each call takes the next bar and returns every output on it, the
+ * same values `computeIndicator` gives at that index. Throws for indicators registered without `stream`.
+ */
+export function streamIndicator(
+  name: string,
+  rawParams: Record<string, unknown> = {},
+  source: PriceField = "close",
+): (bar: Row) => Record<string, number> {
+  const definition = registry.get(name);
+  if (!definition) throw new Error(`Unknown indicator: ${name}`);
+  if (!definition.stream) throw new Error(`Indicator "${name}" has no streaming form`);
+  const next = definition.stream(normaliseParams(definition, rawParams));
+  const fields = definition.inputs.map((input) => (input === "source" ? source : input));
+  return (bar) => next(fields.map((field) => priceOf(bar, field)));
+}
+
+const period = (value: number, description = "Lookback in bars"): ParamSpec => ({
+  default: value,
+  min: 1,
+  integer: true,
+  description,
+});
+const multiple = (value: number, description: string): ParamSpec => ({ default: value, min: 0, integer: false, description });
+const HLC: PriceField[] = ["high", "low", "close"];
+
+const BUILT_IN: IndicatorDefinition[] = [
+  {
+    name: "sma",
+    label: "SMA",
+    description: "Simple moving average",
+    params: { period: period(20) },
+    inputs: ["source"],
+    outputs: ["value"],
+    compute: ([values], p) => ({ value: SMA(values, p.period) }),
+    stream: (p) => {
+      const sma = new StreamingSMA(p.period);
+      return ([v]) => ({ value: sma.push(v) });
+    },
+  },
+  {
+    name: "ema",
+    label: "EMA",
+    description: "Exponential moving average",
+    params: { period: period(20) },
+    inputs: ["source"],
+    outputs: ["value"],
+    compute: ([values], p) => ({ value: EMA(values, p.period) }),
+    stream: (p) => {
+      const ema = new StreamingEMA(p.period);
+      return ([v]) => ({ value: ema.push(v) });
+    },
+  },
+  {
+    name: "rsi",
+    label: "RSI",
+    description: "Wilder's relative strength index, 0 to 100",
+    params: { period: period(14) },
+    inputs: ["source"],
+    outputs: ["value"],
+    compute: ([values], p) => ({ value: RSI(values, p.period) }),
+    stream: (p) => {
+      const rsi = new StreamingRSI(p.period);
+      return ([v]) => ({ value: rsi.push(v) });
+    },
+  },
+  {
+    name: "macd",
+    label: "MACD",
+    description: "Difference of a fast and a slow EMA, its signal line and the histogram between them",
+    params: { fast: period(12, "Fast EMA period"), slow: period(26, "Slow EMA period"), signal: period(9, "Signal EMA period") },
+    inputs: ["source"],
+    outputs: ["macd", "signal", "histogram"],
+    compute: ([values], p) => {
+      const { macd, signal, hist } = MACD(values, p.fast, p.slow, p.signal);
+      return { macd, signal, histogram: hist };
+    },
+    stream: (p) => {
+      const macd = new StreamingMACD(p.fast, p.slow, p.signal);
+      return ([v]) => {
+        const { macd: line, signal, hist } = macd.push(v);
+        return { macd: line, signal, histogram: hist };
+      };
+    },
+  },
+  {
+    name: "atr",
+    label: "ATR",
+    description: "Wilder's average true range, in price units",
+    params: { period: period(14) },
+    inputs: HLC,
+    outputs: ["value"],
+    compute: ([high, low, close], p) => ({ value: ATR(high, low, close, p.period) }),
+    stream: (p) => {
+      const atr = new StreamingATR(p.period);
+      return ([high, low, close]) => ({ value: atr.push({ high, low, close }) });
+    },
+  },
+  {
+    name: "stddev",
+    label: "StdDev",
+    description: "Rolling sample standard deviation",
+    params: { period: period(20) },
+    inputs: ["source"],
+    outputs: ["value"],
+    compute: ([values], p) => ({ value: StdDev(values, p.period) }),
+    stream: (p) => {
+      const sd = new StreamingStdDev(p.period);
+      return ([v]) => ({ value: sd.push(v) });
+    },
+  },
+  {
+    name: "bollinger",
+    label: "Bollinger Bands",
+    description: "SMA plus and minus a multiple of the standard deviation",
+    params: { period: period(20), multiple: multiple(2, "Standard deviations from the middle band") },
+    inputs: ["source"],
+    outputs: ["middle", "upper", "lower"],
+    compute: ([values], p) => BollingerBands(values, p.period, p.multiple),
+    stream: (p) => {
+      const bands = new StreamingBollingerBands(p.period, p.multiple);
+      return ([v]) => bands.push(v);
+    },
+  },
+  {
+    name: "stochastic",
+    label: "Stochastic",
+    description: "Where the close sits in the recent high-low range (%K), and its average (%D), 0 to 100",
+    params: {
+      kPeriod: period(14, "%K lookback"),
+      dPeriod: period(3, "%D smoothing"),
+      smooth: period(1, "%K smoothing; 1 for the fast stochastic"),
+    },
+    inputs: HLC,
+    outputs: ["k", "d"],
+    compute: ([high, low, close], p) => Stochastic(high, low, close, p.kPeriod, p.dPeriod, p.smooth),
+    stream: (p) => {
+      const stochastic = new StreamingStochastic(p.kPeriod, p.dPeriod, p.smooth);
+      return ([high, low, close]) => stochastic.push({ high, low, close });
+    },
+  },
+  {
+    name: "adx",
+    label: "ADX / DMI",
+    description: "Average directional index and the +DI/-DI lines, 0 to 100",
+    params: { period: period(14) },
+    inputs: HLC,
+    outputs: ["adx", "plusDI", "minusDI"],
+    compute: ([high, low, close], p) => ADX(high, low, close, p.period),
+    stream: (p) => {
+      const adx = new StreamingADX(p.period);
+      return ([high, low, close]) => adx.push({ high, low, close });
+    },
+  },
+  {
+    name: "cci",
+    label: "CCI",
+    description: "Commodity channel index of the typical price",
+    params: { period: period(20) },
+    inputs: HLC,
+    outputs: ["value"],
+    compute: ([high, low, close], p) => ({ value: CCI(high, low, close, p.period) }),
+    stream: (p) => {
+      const cci = new StreamingCCI(p.period);
+      return ([high, low, close]) => ({ value: cci.push({ high, low, close }) });
+    },
+  },
+  {
+    name: "williams_r",
+    label: "Williams %R",
+    description: "Close relative to the recent high-low range, 0 to -100",
+    params: { period: period(14) },
+    inputs: HLC,
+    outputs: ["value"],
+    compute: ([high, low, close], p) => ({ value: WilliamsR(high, low, close, p.period) }),
+    stream: (p) => {
+      const williams = new StreamingWilliamsR(p.period);
+      return ([high, low, close]) => ({ value: williams.push({ high, low, close }) });
+    },
+  },
+  {
+    name: "obv",
+    label: "OBV",
+    description: "On-balance volume",
+    params: {},
+    inputs: ["close", "volume"],
+    outputs: ["value"],
+    compute: ([close, volume]) => ({ value: OBV(close, volume) }),
+    stream: () => {
+      const obv = new StreamingOBV();
+      return ([close, volume]) => ({ value: obv.push({ close, volume }) });
+    },
+  },
+  {
+    name: "rolling_vwap",
+    label: "Rolling VWAP",
+    description: "Volume-weighted average typical price",
+    params: { period: period(20) },
+    inputs: [...HLC, "volume"],
+    outputs: ["value"],
+    compute: ([high, low, close, volume], p) => ({ value: RollingVWAP(high, low, close, volume, p.period) }),
+    stream: (p) => {
+      const vwap = new StreamingRollingVWAP(p.period);
+      return ([high, low, close, volume]) => ({ value: vwap.push({ high, low, close, volume }) });
+    },
+  },
+  {
+    name: "donchian",
+    label: "Donchian Channel",
+    description: "Highest high, lowest low and their midpoint",
+    params: { period: period(20) },
+    inputs: ["high", "low"],
+    outputs: ["middle", "upper", "lower"],
+    compute: ([high, low], p) => Donchian(high, low, p.period),
+    stream: (p) => {
+      const channel = new StreamingDonchian(p.period);
+      return ([high, low]) => channel.push({ high, low });
+    },
+  },
+  {
+    name: "keltner",
+    label: "Keltner Channel",
+    description: "EMA of the close plus and minus a multiple of the ATR",
+    params: {
+      period: period(20, "EMA period"),
+      multiple: multiple(2, "ATRs from the middle line"),
+      atrPeriod: period(10, "ATR period"),
+    },
+    inputs: HLC,
+    outputs: ["middle", "upper", "lower"],
+    compute: ([high, low, close], p) => Keltner(high, low, close, p.period, p.multiple, p.atrPeriod),
+    stream: (p) => {
+      const channel = new StreamingKeltner(p.period, p.multiple, p.atrPeriod);
+      return ([high, low, close]) => channel.push({ high, low, close });
+    },
+  },
+  {
+    name: "roc",
+    label: "ROC",
+    description: "Rate of change in percent",
+    params: { period: period(12) },
+    inputs: ["source"],
+    outputs: ["value"],
+    compute: ([values], p) => ({ value: ROC(values, p.period) }),
+    stream: (p) => {
+      const roc = new StreamingROC(p.period);
+      return ([v]) => ({ value: roc.push(v) });
+    },
+  },
+];
+
+BUILT_IN.forEach(registerIndicator);
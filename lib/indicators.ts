@@ -47,3 +47,173 @@ export function RSI(values: number[], period=14): number[] {
   out.unshift(NaN);
   return out;
 }
+
+export function ATR(high: number[], low: number[], close: number[], period=14): number[] {
+  const out: number[] = [];
+  let atr = 0;
+  for (let i = 0; i < close.length; i++) {
+    const tr = i === 0
+      ? high[i] - low[i]
+      : Math.max(high[i] - low[i], Math.abs(high[i] - close[i-1]), Math.abs(low[i] - close[i-1]));
+    if (i < period) {
+      atr += tr;
+      if (i === period - 1) atr /= period;
+      out.push(i === period - 1 ? atr : NaN);
+      continue;
+    }
+    atr = (atr*(period-1) + tr)/period;
+    out.push(atr);
+  }
+  return out;
+}
+
+/** Rolling sample standard deviation over `period` values. */
+export function StdDev(values: number[], period=20): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) { out.push(NaN); continue; }
+    const window = values.slice(i - period + 1, i + 1);
+    const mean = window.reduce((a, b) => a + b, 0) / period;
+    out.push(Math.sqrt(window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (period - 1)));
+  }
+  return out;
+}
+
+/** Applies `fn` from the first finite value on, so indicators can be chained without NaN leaking in. */
+function afterWarmup(values: number[], fn: (values: number[]) => number[]): number[] {
+  const start = values.findIndex((v) => Number.isFinite(v));
+  if (start < 0) return values.map(() => NaN);
+  return [...new Array(start).fill(NaN), ...fn(values.slice(start))];
+}
+
+function rolling(values: number[], period: number, fn: (window: number[]) => number): number[] {
+  return values.map((_, i) => (i >= period - 1 ? fn(values.slice(i - period + 1, i + 1)) : NaN));
+}
+
+function highest(values: number[], period: number): number[] {
+  return rolling(values, period, (window) => Math.max(...window));
+}
+
+function lowest(values: number[], period: number): number[] {
+  return rolling(values, period, (window) => Math.min(...window));
+}
+
+function typicalPrice(high: number[], low: number[], close: number[]): number[] {
+  return close.map((c, i) => (high[i] + low[i] + c) / 3);
+}
+
+/** Bollinger Bands: SMA +/- `multiple` population standard deviations. */
+export function BollingerBands(values: number[], period=20, multiple=2) {
+  const middle = SMA(values, period);
+  const sd = rolling(values, period, (window) => {
+    const mean = window.reduce((a, b) => a + b, 0) / period;
+    return Math.sqrt(window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / period);
+  });
+  const upper = middle.map((m, i) => m + multiple * sd[i]);
+  const lower = middle.map((m, i) => m - multiple * sd[i]);
+  return { middle, upper, lower };
+}
+
+/**
+ * Stochastic oscillator. %K is where the close sits in the `kPeriod` high-low range (50 when the range
+ * is flat), optionally smoothed over `smooth` bars; %D is the SMA of %K over `dPeriod`.
+ */
+export function Stochastic(high: number[], low: number[], close: number[], kPeriod=14, dPeriod=3, smooth=1) {
+  const hh = highest(high, kPeriod);
+  const ll = lowest(low, kPeriod);
+  const raw = close.map((c, i) => (hh[i] > ll[i] ? (100 * (c - ll[i])) / (hh[i] - ll[i]) : i >= kPeriod - 1 ? 50 : NaN));
+  const k = smooth > 1 ? afterWarmup(raw, (v) => SMA(v, smooth)) : raw;
+  const d = afterWarmup(k, (v) => SMA(v, dPeriod));
+  return { k, d };
+}
+
+/**
+ * Wilder's directional movement. +DI and -DI start at index `period`; ADX, the smoothed DX, needs
+ * another `period - 1` bars and starts at index `2 * period - 1`.
+ */
+export function ADX(high: number[], low: number[], close: number[], period=14) {
+  const n = close.length;
+  const plusDI: number[] = new Array(n).fill(NaN);
+  const minusDI: number[] = new Array(n).fill(NaN);
+  const adx: number[] = new Array(n).fill(NaN);
+  let tr = 0, plus = 0, minus = 0, dxSum = 0, smoothed = NaN;
+  for (let i = 1; i < n; i++) {
+    const up = high[i] - high[i-1];
+    const down = low[i-1] - low[i];
+    const t = Math.max(high[i] - low[i], Math.abs(high[i] - close[i-1]), Math.abs(low[i] - close[i-1]));
+    const p = up > down && up > 0 ? up : 0;
+    const m = down > up && down > 0 ? down : 0;
+    if (i <= period) { tr += t; plus += p; minus += m; }
+    else { tr = tr - tr/period + t; plus = plus - plus/period + p; minus = minus - minus/period + m; }
+    if (i < period) continue;
+
+    plusDI[i] = tr > 0 ? (100 * plus) / tr : 0;
+    minusDI[i] = tr > 0 ? (100 * minus) / tr : 0;
+    const total = plusDI[i] + minusDI[i];
+    const dx = total > 0 ? (100 * Math.abs(plusDI[i] - minusDI[i])) / total : 0;
+    if (i < 2 * period - 1) { dxSum += dx; continue; }
+    smoothed = i === 2 * period - 1 ? (dxSum + dx) / period : (smoothed * (period - 1) + dx) / period;
+    adx[i] = smoothed;
+  }
+  return { adx, plusDI, minusDI };
+}
+
+/** Commodity Channel Index on the typical price; 0 when the window has no mean deviation. */
+export function CCI(high: number[], low: number[], close: number[], period=20): number[] {
+  return rolling(typicalPrice(high, low, close), period, (window) => {
+    const mean = window.reduce((a, b) => a + b, 0) / period;
+    const deviation = window.reduce((acc, v) => acc + Math.abs(v - mean), 0) / period;
+    return deviation > 0 ? (window[period - 1] - mean) / (0.015 * deviation) : 0;
+  });
+}
+
+/** Williams %R, from 0 (close at the period high) to -100 (at the low); -50 when the range is flat. */
+export function WilliamsR(high: number[], low: number[], close: number[], period=14): number[] {
+  const hh = highest(high, period);
+  const ll = lowest(low, period);
+  return close.map((c, i) => (hh[i] > ll[i] ? (-100 * (hh[i] - c)) / (hh[i] - ll[i]) : i >= period - 1 ? -50 : NaN));
+}
+
+/** On-balance volume, starting from 0 on the first bar. */
+export function OBV(close: number[], volume: number[]): number[] {
+  const out: number[] = [];
+  let obv = 0;
+  for (let i = 0; i < close.length; i++) {
+    if (i > 0) obv += close[i] > close[i-1] ? volume[i] : close[i] < close[i-1] ? -volume[i] : 0;
+    out.push(obv);
+  }
+  return out;
+}
+
+/** Volume-weighted average of the typical price over `period` bars; NaN when no volume traded. */
+export function RollingVWAP(high: number[], low: number[], close: number[], volume: number[], period=20): number[] {
+  const tp = typicalPrice(high, low, close);
+  return close.map((_, i) => {
+    if (i < period - 1) return NaN;
+    let pv = 0, v = 0;
+    for (let j = i - period + 1; j <= i; j++) { pv += tp[j] * volume[j]; v += volume[j]; }
+    return v > 0 ? pv / v : NaN;
+  });
+}
+
+/** Donchian channel: highest high and lowest low over `period` bars, and their midpoint. */
+export function Donchian(high: number[], low: number[], period=20) {
+  const upper = highest(high, period);
+  const lower = lowest(low, period);
+  const middle = upper.map((u, i) => (u + lower[i]) / 2);
+  return { upper, middle, lower };
+}
+
+/** Keltner channel: EMA of the close +/- `multiple` ATRs. */
+export function Keltner(high: number[], low: number[], close: number[], period=20, multiple=2, atrPeriod=10) {
+  const middle = EMA(close, period);
+  const atr = ATR(high, low, close, atrPeriod);
+  const upper = middle.map((m, i) => m + multiple * atr[i]);
+  const lower = middle.map((m, i) => m - multiple * atr[i]);
+  return { upper, middle, lower };
+}
+
+/** Rate of change in percent over `period` bars. */
+export function ROC(values: number[], period=12): number[] {
+  return values.map((v, i) => (i >= period ? (100 * (v - values[i - period])) / values[i - period] : NaN));
+}
@@ -0,0 +1,142 @@
+// lib/metrics.ts
+const MS_PER_DAY = 86_400_000;
+const DAYS_PER_YEAR = 365.25;
+const DEFAULT_PERIODS_PER_YEAR = 252;
+
+type TradeLike = { pnl: number; entryIdx: number; exitIdx: number };
+
+export type PerformanceInput = {
+  /** Equity curve in units of starting capital, one point per bar. */
+  equity: number[];
+  /** ISO dates aligned with `equity`. */
+  dates: string[];
+  trades: TradeLike[];
+  /** Bars during which a position was held at the close. */
+  barsInMarket: number;
+};
+
+/**
+ * Risk-adjusted performance of an equity curve. Ratios use a zero risk-free rate and are
+ * annualised with the bar frequency implied by the dates. Ratios whose denominator is zero
+ * (no losing trades, no drawdown) are reported as null.
+ */
+export type PerformanceStats = {
+  cagrPct: number;
+  volatilityPct: number;
+  sharpe: number;
+  sortino: number | null;
+  calmar: number | null;
+  /** Largest peak-to-trough decline, as a positive percentage. */
+  maxDrawdownPct: number;
+  /** Longest time spent below a previous equity peak, in calendar days. */
+  maxDrawdownDays: number;
+  profitFactor: number | null;
+  /** Expected return per trade: win rate x average win + loss rate x average loss. */
+  expectancyPct: number;
+  avgWinPct: number;
+  avgLossPct: number;
+  maxWinStreak: number;
+  maxLossStreak: number;
+  exposurePct: number;
+  avgBarsHeld: number;
+};
+
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+export function stdev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+export function periodReturns(equity: number[]): number[] {
+  const out: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    out.push(equity[i - 1] !== 0 ? equity[i] / equity[i - 1] - 1 : 0);
+  }
+  return out;
+}
+
+export function periodsPerYear(dates: string[]): number {
+  if (dates.length < 2) return DEFAULT_PERIODS_PER_YEAR;
+  const years = daysBetween(dates[0], dates[dates.length - 1]) / DAYS_PER_YEAR;
+  return years > 0 ? (dates.length - 1) / years : DEFAULT_PERIODS_PER_YEAR;
+}
+
+export function drawdown(equity: number[], dates: string[]): { maxDrawdownPct: number; maxDrawdownDays: number } {
+  let peak = -Infinity;
+  let peakIdx = 0;
+  let maxDrawdown = 0;
+  let maxDays = 0;
+
+  for (let i = 0; i < equity.length; i++) {
+    if (equity[i] >= peak) {
+      peak = equity[i];
+      peakIdx = i;
+      continue;
+    }
+    maxDrawdown = Math.max(maxDrawdown, 1 - equity[i] / peak);
+    // Underwater from the peak until (at least) this bar.
+    if (dates[peakIdx] && dates[i]) maxDays = Math.max(maxDays, daysBetween(dates[peakIdx], dates[i]));
+  }
+
+  return { maxDrawdownPct: maxDrawdown * 100, maxDrawdownDays: maxDays };
+}
+
+function streaks(pnls: number[]): { maxWinStreak: number; maxLossStreak: number } {
+  let wins = 0;
+  let losses = 0;
+  let maxWinStreak = 0;
+  let maxLossStreak = 0;
+  for (const pnl of pnls) {
+    wins = pnl > 0 ? wins + 1 : 0;
+    losses = pnl < 0 ? losses + 1 : 0;
+    maxWinStreak = Math.max(maxWinStreak, wins);
+    maxLossStreak = Math.max(maxLossStreak, losses);
+  }
+  return { maxWinStreak, maxLossStreak };
+}
+
+export function computePerformance({ equity, dates, trades, barsInMarket }: PerformanceInput): PerformanceStats {
+  const returns = periodReturns(equity);
+  const annualisation = periodsPerYear(dates);
+  const finalEquity = equity.length ? equity[equity.length - 1] : 1;
+  const years = dates.length > 1 ? daysBetween(dates[0], dates[dates.length - 1]) / DAYS_PER_YEAR : 0;
+  const cagr = years > 0 && finalEquity > 0 ? finalEquity ** (1 / years) - 1 : finalEquity - 1;
+
+  const vol = stdev(returns);
+  const downside = Math.sqrt(mean(returns.map((r) => Math.min(r, 0) ** 2)));
+  const { maxDrawdownPct, maxDrawdownDays } = drawdown(equity, dates);
+
+  const pnls = trades.map((t) => t.pnl);
+  const wins = pnls.filter((p) => p > 0);
+  const losses = pnls.filter((p) => p < 0);
+  const grossWin = wins.reduce((a, b) => a + b, 0);
+  const grossLoss = -losses.reduce((a, b) => a + b, 0);
+  const avgWin = mean(wins);
+  const avgLoss = mean(losses);
+  const expectancy = pnls.length ? (wins.length / pnls.length) * avgWin + (losses.length / pnls.length) * avgLoss : 0;
+
+  return {
+    cagrPct: cagr * 100,
+    volatilityPct: vol * Math.sqrt(annualisation) * 100,
+    sharpe: vol > 0 ? (mean(returns) / vol) * Math.sqrt(annualisation) : 0,
+    sortino: downside > 0 ? (mean(returns) / downside) * Math.sqrt(annualisation) : null,
+    calmar: maxDrawdownPct > 0 ? (cagr * 100) / maxDrawdownPct : null,
+    maxDrawdownPct,
+    maxDrawdownDays,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+    expectancyPct: expectancy * 100,
+    avgWinPct: avgWin * 100,
+    avgLossPct: avgLoss * 100,
+    ...streaks(pnls),
+    exposurePct: equity.length ? (100 * barsInMarket) / equity.length : 0,
+    avgBarsHeld: mean(trades.map((t) => t.exitIdx - t.entryIdx)),
+  };
+}
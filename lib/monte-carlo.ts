@@ -0,0 +1,136 @@
+// lib/monte-carlo.ts
+import { drawdown, periodReturns } from "./metrics";
+
+/**
+ * - "shuffle": reorders the trades; the final return is unchanged, only the path (drawdown, ruin) varies.
+ * - "resample": draws trades with replacement, so both the path and the final return vary.
+ * - "returns": bootstrap-resamples the per-bar returns of the equity curve.
+ */
+export type MonteCarloMethod = "shuffle" | "resample" | "returns";
+
+export type MonteCarloOptions = {
+  method?: MonteCarloMethod;
+  iterations?: number;
+  seed?: number;
+  /** A path is ruined once equity falls this far (in %) below starting capital. */
+  ruinThresholdPct?: number;
+  bins?: number;
+};
+
+export type Percentiles = { p5: number; p25: number; p50: number; p75: number; p95: number; mean: number };
+
+export type MonteCarloResult = {
+  method: MonteCarloMethod;
+  iterations: number;
+  seed: number;
+  finalReturnPct: Percentiles;
+  maxDrawdownPct: Percentiles;
+  probabilityOfRuinPct: number;
+  /** Distribution of final returns for charting. */
+  histogram: { from: number; to: number; count: number }[];
+};
+
+export const DEFAULT_ITERATIONS = 2_000;
+export const MAX_ITERATIONS = 20_000;
+
+/** Mulberry32: a small, fast seeded PRNG returning floats in [0, 1). */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+function summarise(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    mean: sorted.length ? sorted.reduce((a, b) => a + b, 0) / sorted.length : 0,
+  };
+}
+
+function histogram(values: number[], bins: number): MonteCarloResult["histogram"] {
+  if (!values.length) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = max > min ? (max - min) / bins : 1;
+  const out = Array.from({ length: max > min ? bins : 1 }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const value of values) {
+    out[Math.min(out.length - 1, Math.floor((value - min) / width))].count++;
+  }
+  return out;
+}
+
+function sample(source: number[], random: () => number, replace: boolean): number[] {
+  if (replace) return source.map(() => source[Math.floor(random() * source.length)]);
+  const copy = [...source];
+  // Fisher-Yates
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/**
+ * Simulates alternative histories of a backtest from its trades (or its equity curve's returns) and
+ * reports the distribution of outcomes. The same seed always produces the same result. Each trade moves
+ * equity by `weight * pnl`, its return on the capital it used scaled by the share of equity that was;
+ * trades without a `weight` are taken to have used all of it.
+ */
+export function runMonteCarlo(
+  result: { trades: { pnl: number; weight?: number }[]; equity: number[] },
+  options: MonteCarloOptions = {},
+): MonteCarloResult {
+  const method = options.method ?? "shuffle";
+  const iterations = Math.max(1, Math.min(Math.floor(options.iterations ?? DEFAULT_ITERATIONS), MAX_ITERATIONS));
+  const seed = options.seed ?? 42;
+  const ruinLevel = 1 - (options.ruinThresholdPct ?? 50) / 100;
+  const random = seededRandom(seed);
+  const source =
+    method === "returns"
+      ? periodReturns(result.equity)
+      : result.trades.map((t) => (typeof t.weight === "number" && Number.isFinite(t.weight) ? t.weight : 1) * t.pnl);
+
+  const finals: number[] = [];
+  const drawdowns: number[] = [];
+  let ruined = 0;
+
+  for (let n = 0; n < iterations; n++) {
+    const path = [1];
+    let low = 1;
+    for (const r of sample(source, random, method !== "shuffle")) {
+      path.push(path[path.length - 1] * (1 + r));
+      low = Math.min(low, path[path.length - 1]);
+    }
+    finals.push((path[path.length - 1] - 1) * 100);
+    drawdowns.push(drawdown(path, []).maxDrawdownPct);
+    if (low <= ruinLevel) ruined++;
+  }
+
+  return {
+    method,
+    iterations,
+    seed,
+    finalReturnPct: summarise(finals),
+    maxDrawdownPct: summarise(drawdowns),
+    probabilityOfRuinPct: (100 * ruined) / iterations,
+    histogram: histogram(finals, options.bins ?? 30),
+  };
+}
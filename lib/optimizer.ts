@@ -0,0 +1,204 @@
+// lib/optimizer.ts
+import type { Row } from "../types/row";
+import type { ReferenceSeries } from "./filters";
+import {
+  normaliseDsl,
+  runBacktest,
+  type BacktestStats,
+  type StrategyDSL,
+} from "./strategy-engine";
+
+/** A sweep dimension: an explicit list of values, or an inclusive min..max grid. */
+export type ParamRange = number[] | { min: number; max: number; step?: number };
+
+export type Objective =
+  | "sharpe"
+  | "sortino"
+  | "calmar"
+  | "totalReturnPct"
+  | "cagrPct"
+  | "profitFactor"
+  | "winRatePct"
+  | "maxDrawdownPct";
+
+export const OBJECTIVES: Objective[] = [
+  "sharpe",
+  "sortino",
+  "calmar",
+  "totalReturnPct",
+  "cagrPct",
+  "profitFactor",
+  "winRatePct",
+  "maxDrawdownPct",
+];
+
+/** Objectives where a smaller value ranks higher. */
+const MINIMISE: Objective[] = ["maxDrawdownPct"];
+
+export const DEFAULT_MAX_COMBINATIONS = 500;
+export const HARD_MAX_COMBINATIONS = 5_000;
+
+export type SweepDimension = { path: string; values: number[] };
+
+export type SweepRow = {
+  params: Record<string, number>;
+  dsl: StrategyDSL;
+  score: number | null;
+  stats: BacktestStats;
+};
+
+export type SweepResult = {
+  objective: Objective;
+  dimensions: SweepDimension[];
+  combinations: number;
+  /** Ranked best first; combinations whose objective is undefined sort last. */
+  results: SweepRow[];
+};
+
+export type SweepOptions = {
+  objective?: Objective;
+  maxCombinations?: number;
+  /** Only keep the best `top` rows. */
+  top?: number;
+  /** Reference series for regime filters. */
+  references?: ReferenceSeries;
+};
+
+function rangeStep(range: Exclude<ParamRange, number[]>): number {
+  return range.step && range.step > 0 ? range.step : 1;
+}
+
+/** How many values a range expands to, without expanding it. */
+function rangeCount(range: ParamRange): number {
+  if (Array.isArray(range)) return range.length;
+  return Math.floor((range.max - range.min) / rangeStep(range) + 1e-6) + 1;
+}
+
+function rangeValues(range: ParamRange): number[] {
+  if (Array.isArray(range)) return range;
+  const step = rangeStep(range);
+  const values: number[] = [];
+  // Round to the step's precision so 0.1 increments don't drift.
+  const decimals = (String(step).split(".")[1] ?? "").length;
+  for (let v = range.min; v <= range.max + step / 1e6; v += step) {
+    values.push(Number(v.toFixed(decimals)));
+  }
+  return values;
+}
+
+function isRange(value: unknown): value is ParamRange {
+  if (Array.isArray(value)) return value.length > 0 && value.every((v) => typeof v === "number" && Number.isFinite(v));
+  if (!value || typeof value !== "object") return false;
+  const { min, max } = value as { min?: unknown; max?: unknown };
+  return typeof min === "number" && typeof max === "number" && Number.isFinite(min) && Number.isFinite(max) && min <= max;
+}
+
+// A rule in `rules` or a leaf of an `entry`/`exit` tree, and the operands of a comparison.
+const CONDITION = String.raw`(?:rules\.\d+|(?:entry|exit)(?:\.(?:all|any)\.\d+|\.not)*)`;
+const OPERAND = String.raw`(?:left|right|right\.lower|right\.upper)`;
+
+/**
+ * Paths of the DSL's single-number parameters. Only these are swept, so lists the DSL takes as they are
+ * (`filters[].days`, `scaling.exitFractions`, ...) are left alone.
+ */
+const SWEEPABLE: RegExp[] = [
+  /^capital$/,
+  /^costs\.(?:commission|commissionBps|slippage|slippage\.value|slippage\.fraction)$/,
+  /^risk\.(?:stopLossPct|takeProfitPct|trailingStopPct|atrStop\.period|atrStop\.multiple)$/,
+  /^sizing\.(?:fraction|shares|period|riskPct|maxFraction|multiplier|minTrades|initialFraction)$/,
+  /^scaling\.maxUnits$/,
+  /^holding\.(?:maxBars|minBars|cooldownBars)$/,
+  /^filters\.\d+\.period$/,
+  new RegExp(`^${CONDITION}\\.params\\.(?:fast|slow|signal|period|low|high)$`),
+  // A constant operand, or a parameter of an indicator operand.
+  new RegExp(`^${CONDITION}\\.${OPERAND}(?:\\.(?!(?:ind|indicator|output|source)$)\\w+)?$`),
+];
+
+function isSweepable(path: string[], root: any): boolean {
+  const joined = path.join(".");
+  // `days` is a count for before_date filters but the list of allowed weekdays for day_of_week.
+  if (path.length === 3 && path[0] === "filters" && path[2] === "days") return root.filters?.[path[1]]?.type === "before_date";
+  return SWEEPABLE.some((pattern) => pattern.test(joined));
+}
+
+type FoundRange = { path: string; range: ParamRange };
+
+function findRanges(raw: any, path: string[], root: any): FoundRange[] {
+  if (path.length && isRange(raw) && isSweepable(path, root)) return [{ path: path.join("."), range: raw }];
+  if (!raw || typeof raw !== "object") return [];
+  return Object.entries(raw).flatMap(([key, value]) => findRanges(value, [...path, key], root));
+}
+
+/**
+ * Finds every numeric parameter of a raw DSL that holds a range instead of a number, e.g.
+ * `{ "fast": [5, 10, 20] }` or `{ "period": { "min": 10, "max": 20, "step": 2 } }`, keyed by
+ * dotted path such as `rules.0.params.fast`. Only single-number parameters are swept; see SWEEPABLE.
+ */
+export function extractParamRanges(raw: any): SweepDimension[] {
+  return findRanges(raw, [], raw).map(({ path, range }) => ({ path, values: rangeValues(range) }));
+}
+
+export function expandGrid(dimensions: SweepDimension[]): Record<string, number>[] {
+  return dimensions.reduce<Record<string, number>[]>(
+    (combos, { path, values }) => combos.flatMap((combo) => values.map((value) => ({ ...combo, [path]: value }))),
+    [{}],
+  );
+}
+
+export function countCombinations(dimensions: SweepDimension[]): number {
+  return dimensions.reduce((total, { values }) => total * values.length, 1);
+}
+
+function withParams(raw: any, params: Record<string, number>): any {
+  const copy = JSON.parse(JSON.stringify(raw));
+  for (const [path, value] of Object.entries(params)) {
+    const keys = path.split(".");
+    const last = keys.pop()!;
+    const target = keys.reduce((node, key) => node[key], copy);
+    target[last] = value;
+  }
+  return copy;
+}
+
+export function objectiveScore(stats: BacktestStats, objective: Objective): number | null {
+  const value = stats[objective];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function rankRows<T extends { score: number | null }>(rows: T[], objective: Objective): T[] {
+  const sign = MINIMISE.includes(objective) ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (a.score === null || b.score === null) return a.score === null ? (b.score === null ? 0 : 1) : -1;
+    return sign * (a.score - b.score);
+  });
+}
+
+/**
+ * Runs a backtest for every combination of the ranges found in `rawDsl`. Indicator series are
+ * memoized by lib/indicator-registry.ts, so a series such as `sma_20` is computed once for the whole grid.
+ */
+export function runParameterSweep(rawDsl: any, rows: Row[], options: SweepOptions = {}): SweepResult {
+  const objective = options.objective ?? "sharpe";
+  const maxCombinations = Math.min(options.maxCombinations ?? DEFAULT_MAX_COMBINATIONS, HARD_MAX_COMBINATIONS);
+  // Counted from the ranges themselves so an oversized grid is rejected before any values are built.
+  const ranges = findRanges(rawDsl, [], rawDsl);
+  const combinations = ranges.reduce((total, { range }) => total * rangeCount(range), 1);
+  if (combinations > maxCombinations) {
+    throw new Error(`Parameter grid has ${combinations} combinations, above the limit of ${maxCombinations}`);
+  }
+  const dimensions = ranges.map(({ path, range }) => ({ path, values: rangeValues(range) }));
+
+  const results = expandGrid(dimensions).map((params): SweepRow => {
+    const dsl = normaliseDsl(withParams(rawDsl, params));
+    const { stats } = runBacktest(dsl, rows, { references: options.references });
+    return { params, dsl, score: objectiveScore(stats, objective), stats };
+  });
+
+  const ranked = rankRows(results, objective);
+  return {
+    objective,
+    dimensions,
+    combinations,
+    results: options.top ? ranked.slice(0, options.top) : ranked,
+  };
+}
@@ -0,0 +1,319 @@
+// lib/pairs.ts
+import type { Row } from "../types/row";
+import { SMA, StdDev } from "./indicators";
+import { computePerformance } from "./metrics";
+import type { PortfolioStats, PortfolioTrade } from "./portfolio";
+import {
+  DEFAULT_CAPITAL,
+  DEFAULT_FILL_POLICY,
+  FILL_POLICIES,
+  fillPrice,
+  normaliseCosts,
+  slippedPrice,
+  tradeReturn,
+  type CostModel,
+  type ExitReason,
+  type FillPolicy,
+  type Side,
+} from "./strategy-engine";
+
+/**
+ * How many shares of the second ticker hedge one share of the first, from an OLS regression of the
+ * first's closes on the second's. "static" fits once over the whole range, which looks ahead and
+ * suits only a pair chosen in advance; "rolling" refits over the trailing `lookback` bars.
+ */
+export type HedgeRatio = { method: "static" } | { method: "rolling"; lookback: number };
+
+/**
+ * The spread is `first - hedgeRatio x second`, and its z-score is measured against the trailing
+ * `zLookback` bars. A z-score beyond `entryZ` sells (above) or buys (below) the spread; the position
+ * closes once the z-score is back within `exitZ` of zero, or on a move beyond `stopZ`.
+ */
+export type PairsConfig = {
+  name: string;
+  hedge: HedgeRatio;
+  zLookback: number;
+  entryZ: number;
+  exitZ: number;
+  stopZ?: number;
+  /** Combined notional of both legs as a fraction of equity. */
+  grossExposure: number;
+  capital?: number;
+  costs?: CostModel;
+  fill: FillPolicy;
+};
+
+export type PairsStats = PortfolioStats;
+
+export type PairsResult = {
+  name: string;
+  fill: FillPolicy;
+  /** The first ticker is the one the spread is quoted in. */
+  tickers: [string, string];
+  hedge: HedgeRatio;
+  /** Dates on which both tickers have a bar. */
+  dates: string[];
+  /** Equity in units of starting capital. */
+  equity: number[];
+  hedgeRatio: number[];
+  spread: number[];
+  zscore: number[];
+  /** One trade per leg per round trip. */
+  trades: PortfolioTrade[];
+  /** Trade statistics count round trips of the spread, measured on their combined notional. */
+  stats: PairsStats;
+  /** Entry signals that could not be filled: no usable hedge ratio yet, or too little cash to cover the fees. */
+  skipped: { date: string; reason: string }[];
+};
+
+type Leg = {
+  ticker: string;
+  side: Side;
+  quantity: number;
+  entryBase: number;
+  entryPrice: number;
+  entryFee: number;
+  /** Entry notional over equity at entry. */
+  weight: number;
+};
+
+type SpreadPosition = { side: Side; entryIdx: number; legs: [Leg, Leg] };
+
+type Order = { exit?: ExitReason; enter?: Side };
+
+export const DEFAULT_PAIRS: PairsConfig = {
+  name: "Pairs",
+  hedge: { method: "rolling", lookback: 60 },
+  zLookback: 20,
+  entryZ: 2,
+  exitZ: 0.5,
+  grossExposure: 1,
+  fill: DEFAULT_FILL_POLICY,
+};
+
+function positive(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function normalisePairs(raw: any): PairsConfig {
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_PAIRS };
+  const hedge: HedgeRatio =
+    raw.hedge?.method === "static" || raw.hedge === "static"
+      ? { method: "static" }
+      : { method: "rolling", lookback: Math.max(2, Math.floor(positive(raw.hedge?.lookback, 60))) };
+  const entryZ = positive(raw.entryZ, DEFAULT_PAIRS.entryZ);
+  const exitZ = Math.min(Math.max(0, Number(raw.exitZ ?? DEFAULT_PAIRS.exitZ) || 0), entryZ);
+  const stopZ = Number(raw.stopZ);
+  const capital = Number(raw.capital);
+  const costs = normaliseCosts(raw.costs);
+  return {
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : DEFAULT_PAIRS.name,
+    hedge,
+    zLookback: Math.max(2, Math.floor(positive(raw.zLookback, DEFAULT_PAIRS.zLookback))),
+    entryZ,
+    exitZ,
+    ...(Number.isFinite(stopZ) && stopZ > entryZ ? { stopZ } : {}),
+    grossExposure: positive(raw.grossExposure, DEFAULT_PAIRS.grossExposure),
+    ...(Number.isFinite(capital) && capital > 0 ? { capital } : {}),
+    ...(costs ? { costs } : {}),
+    fill: FILL_POLICIES.includes(raw.fill) ? raw.fill : DEFAULT_PAIRS.fill,
+  };
+}
+
+/** Slope of the OLS regression of `y` on `x` (with an intercept); NaN when `x` doesn't vary. */
+export function olsSlope(y: number[], x: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return NaN;
+  let mx = 0;
+  let my = 0;
+  for (let i = 0; i < n; i++) {
+    mx += x[i] / n;
+    my += y[i] / n;
+  }
+  let cov = 0;
+  let varX = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (x[i] - mx) * (y[i] - my);
+    varX += (x[i] - mx) ** 2;
+  }
+  return varX > 0 ? cov / varX : NaN;
+}
+
+export function hedgeRatios(y: number[], x: number[], hedge: HedgeRatio): number[] {
+  if (hedge.method === "static") return y.map(() => olsSlope(y, x));
+  return y.map((_, i) =>
+    i >= hedge.lookback - 1 ? olsSlope(y.slice(i - hedge.lookback + 1, i + 1), x.slice(i - hedge.lookback + 1, i + 1)) : NaN,
+  );
+}
+
+/** Rolling z-score of `values`; NaN during warmup and when the window is flat. */
+export function zScores(values: number[], lookback: number): number[] {
+  const mean = SMA(values, lookback);
+  const sd = StdDev(values, lookback);
+  return values.map((value, i) => (sd[i] > 0 ? (value - mean[i]) / sd[i] : NaN));
+}
+
+/**
+ * Backtests a mean-reversion trade on the spread between two tickers. Selling the spread shorts the
+ * first ticker and buys `hedgeRatio` shares of the second for each share; buying it does the reverse.
+ * With a negative hedge ratio (a negatively correlated pair) both legs take the same side, holding
+ * `|hedgeRatio|` shares of the second. Leg sizes are fixed at entry so that the legs' combined notional
+ * plus entry costs is `grossExposure` x equity.
+ * Signals are evaluated on the close; under the next-bar fill policies both legs fill on the next bar.
+ */
+export function runPairsBacktest(config: PairsConfig, first: Row[], second: Row[]): PairsResult {
+  const byDate = new Map(second.map((row) => [row.date, row]));
+  const bars = first.flatMap((row) => {
+    const other = byDate.get(row.date);
+    return other ? [[row, other] as [Row, Row]] : [];
+  });
+  const tickers: [string, string] = [first[0]?.ticker ?? "", second[0]?.ticker ?? ""];
+  const dates = bars.map(([a]) => a.date);
+  const hedgeRatio = hedgeRatios(
+    bars.map(([a]) => a.close),
+    bars.map(([, b]) => b.close),
+    config.hedge,
+  );
+  const spread = bars.map(([a, b], i) => a.close - hedgeRatio[i] * b.close);
+  const zscore = zScores(spread, config.zLookback);
+
+  const capital = config.capital ?? DEFAULT_CAPITAL;
+  const feeRate = (config.costs?.commissionBps ?? 0) / 10_000;
+  const fixedFee = config.costs?.commission ?? 0;
+  const slippage = config.costs?.slippage;
+  const nextBar = config.fill !== "same_close";
+
+  const trades: PortfolioTrade[] = [];
+  const roundTrips: { pnl: number; entryIdx: number; exitIdx: number }[] = [];
+  const skipped: PairsResult["skipped"] = [];
+  const equity: number[] = new Array(bars.length).fill(1);
+  let cash = capital;
+  let position: SpreadPosition | null = null;
+  let pending: Order = {};
+  let barsInMarket = 0;
+
+  const legValue = (leg: Leg, price: number) => (leg.side === "long" ? 1 : -1) * leg.quantity * price;
+
+  const open = (side: Side, i: number, prices: [number, number]) => {
+    const ratio = hedgeRatio[i];
+    if (!Number.isFinite(ratio) || ratio === 0) {
+      skipped.push({ date: dates[i], reason: "no hedge ratio" });
+      return;
+    }
+    // Flat, so equity is the cash balance. Per share of the first ticker: one share of it plus `|ratio|`
+    // shares of the second; both legs pay the fixed commission.
+    const perUnit = prices[0] + Math.abs(ratio) * prices[1];
+    const units = (cash * config.grossExposure - 2 * fixedFee) / (perUnit * (1 + feeRate));
+    if (!(units > 0)) {
+      skipped.push({ date: dates[i], reason: "insufficient cash" });
+      return;
+    }
+    const equityAtEntry = cash;
+    // Buying the spread buys the first ticker and sells `ratio` of the second, which buys it when the ratio is negative.
+    const second: Side = (side === "long") === ratio > 0 ? "short" : "long";
+    const sides: [Side, Side] = [side, second];
+    const legs = ([0, 1] as const).map((k): Leg => {
+      const entryPrice = slippedPrice(bars[i][k], sides[k] === "long", slippage, prices[k]);
+      const quantity = k === 0 ? units : units * Math.abs(ratio);
+      const notional = quantity * entryPrice;
+      const entryFee = notional * feeRate + fixedFee;
+      cash += sides[k] === "long" ? -notional - entryFee : notional - entryFee;
+      return { ticker: tickers[k], side: sides[k], quantity, entryBase: prices[k], entryPrice, entryFee, weight: notional / equityAtEntry };
+    }) as [Leg, Leg];
+    position = { side, entryIdx: i, legs };
+  };
+
+  const close = (i: number, prices: [number, number], reason: ExitReason) => {
+    const { legs, entryIdx } = position!;
+    let net = 0;
+    let committed = 0;
+    legs.forEach((leg, k) => {
+      const exitPrice = slippedPrice(bars[i][k], leg.side === "short", slippage, prices[k]);
+      const notional = leg.quantity * exitPrice;
+      const exitFee = notional * feeRate + fixedFee;
+      const entryNotional = leg.quantity * leg.entryPrice;
+      const pnl = tradeReturn(leg.side, leg.entryPrice, exitPrice) * entryNotional - leg.entryFee - exitFee;
+      cash += leg.side === "long" ? notional - exitFee : -notional - exitFee;
+      net += pnl;
+      committed += entryNotional;
+      trades.push({
+        ticker: leg.ticker,
+        side: leg.side,
+        quantity: leg.quantity,
+        notional: entryNotional,
+        entryIdx,
+        exitIdx: i,
+        unit: 1,
+        avgCost: leg.entryPrice,
+        entryPrice: leg.entryPrice,
+        exitPrice,
+        pnl: pnl / entryNotional,
+        weight: leg.weight,
+        grossPnl: tradeReturn(leg.side, leg.entryBase, prices[k]),
+        exitReason: reason,
+      });
+    });
+    roundTrips.push({ pnl: net / committed, entryIdx, exitIdx: i });
+    position = null;
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const [a, b] = bars[i];
+
+    if (nextBar) {
+      const prices: [number, number] = [fillPrice(a, config.fill), fillPrice(b, config.fill)];
+      if (position && pending.exit) close(i, prices, pending.exit);
+      if (!position && pending.enter) open(pending.enter, i, prices);
+      pending = {};
+    }
+
+    const z = zscore[i];
+    const current = position as SpreadPosition | null;
+    const order: Order = {};
+    if (current && (nextBar || i > current.entryIdx) && Number.isFinite(z)) {
+      // Long the spread after it fell below -entryZ: exit once it recovers, stop out if it keeps falling.
+      const signed = current.side === "long" ? -z : z;
+      if (config.stopZ !== undefined && signed > config.stopZ) order.exit = "stop_loss";
+      else if (signed <= config.exitZ) order.exit = "signal";
+    } else if (!current && Number.isFinite(z)) {
+      if (z > config.entryZ) order.enter = "short";
+      else if (z < -config.entryZ) order.enter = "long";
+    }
+
+    if (nextBar) {
+      if (i < bars.length - 1) pending = order;
+    } else if (order.exit) {
+      close(i, [a.close, b.close], order.exit);
+    } else if (order.enter) {
+      open(order.enter, i, [a.close, b.close]);
+    }
+
+    const held = position as SpreadPosition | null;
+    if (held) barsInMarket++;
+    const value = held ? legValue(held.legs[0], a.close) + legValue(held.legs[1], b.close) : 0;
+    equity[i] = (cash + value) / capital;
+  }
+
+  const returns = roundTrips.map((t) => t.pnl);
+  return {
+    name: config.name,
+    fill: config.fill,
+    tickers,
+    hedge: config.hedge,
+    dates,
+    equity,
+    hedgeRatio,
+    spread,
+    zscore,
+    trades,
+    skipped,
+    stats: {
+      totalReturnPct: ((equity.at(-1) ?? 1) - 1) * 100,
+      trades: roundTrips.length,
+      winRatePct: returns.length ? (100 * returns.filter((x) => x > 0).length) / returns.length : 0,
+      avgTradePct: returns.length ? (100 * returns.reduce((a, b) => a + b, 0)) / returns.length : 0,
+      ...computePerformance({ equity, dates, trades: roundTrips, barsInMarket }),
+    },
+  };
+}
@@ -48,6 +48,13 @@ export interface PolygonDividend {
   ticker: string;
 }
 
+export interface PolygonSplit {
+  execution_date: string;
+  split_from: number;
+  split_to: number;
+  ticker: string;
+}
+
 export interface BulkDataFile {
   name: string;
   download_link: string;
@@ -171,6 +178,17 @@ export class PolygonClient {
     return this.request('/v3/reference/dividends', options);
   }
 
+  // Get stock splits
+  async getSplits(options: {
+    ticker?: string;
+    execution_date_gte?: string;
+    execution_date_lte?: string;
+    reverse_split?: boolean;
+    limit?: number;
+  } = {}): Promise<PolygonResponse<PolygonSplit>> {
+    return this.request('/v3/reference/splits', options);
+  }
+
   // Get bulk data files (Flat Files API)
   async getBulkDataFiles(date: string): Promise<BulkDataFile[]> {
     try {
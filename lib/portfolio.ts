@@ -0,0 +1,337 @@
+// lib/portfolio.ts
+import type { Row } from "../types/row";
+import type { ReferenceSeries } from "./filters";
+import { computeIndicator } from "./indicator-registry";
+import { computePerformance, type PerformanceStats } from "./metrics";
+import {
+  DEFAULT_CAPITAL,
+  DEFAULT_FILL_POLICY,
+  checkRiskExit,
+  computeSignals,
+  fillPrice,
+  slippedPrice,
+  tradeReturn,
+  type ExitReason,
+  type FillPolicy,
+  type Side,
+  type Signals,
+  type StrategyDSL,
+  type Trade,
+} from "./strategy-engine";
+
+/**
+ * How a shared cash balance is split between tickers. Each new position targets an equal share of
+ * current equity (equity / maxPositions), capped at maxPositionPct of equity and, for longs, by the
+ * cash on hand. Entries beyond maxPositions are skipped.
+ */
+export type Allocation = {
+  weighting: "equal";
+  /** Defaults to the number of tickers, i.e. every ticker can hold a position at once. */
+  maxPositions?: number;
+  maxPositionPct?: number;
+};
+
+export type PortfolioTrade = Trade & { ticker: string };
+
+export type TickerContribution = {
+  ticker: string;
+  /** Realised plus unrealised P&L net of costs, in account currency. */
+  pnl: number;
+  /** P&L as a percentage of starting capital; contributions sum to the portfolio return. */
+  contributionPct: number;
+  trades: number;
+};
+
+export type PortfolioStats = {
+  totalReturnPct: number;
+  trades: number;
+  winRatePct: number;
+  avgTradePct: number;
+} & PerformanceStats;
+
+export type PortfolioResult = {
+  name: string;
+  fill: FillPolicy;
+  allocation: Allocation;
+  /** Union of all tickers' dates; trade indices refer to this index. */
+  dates: string[];
+  /** Portfolio equity in units of starting capital. */
+  equity: number[];
+  trades: PortfolioTrade[];
+  contributions: TickerContribution[];
+  stats: PortfolioStats;
+};
+
+type Holding = {
+  side: Side;
+  entryIdx: number;
+  entryBase: number;
+  entryPrice: number;
+  quantity: number;
+  entryFee: number;
+  extreme: number;
+  atrAtEntry: number;
+  /** Capital committed (notional plus entry fee) over portfolio equity at entry. */
+  weight: number;
+};
+
+type Entry = { state: TickerState; side: Side; price: number };
+
+type TickerState = {
+  ticker: string;
+  rows: Row[];
+  /** Position of each common date in `rows`, or -1 when the ticker has no bar that day. */
+  rowIndex: number[];
+  signals: Signals;
+  atr: number[];
+  lastClose: number;
+  realised: number;
+  trades: number;
+  holding: Holding | null;
+  /** Row of the ticker's last full exit, for `holding.cooldownBars`. */
+  lastExitRow: number;
+  /** Orders decided on the ticker's previous close, for the next-bar fill policies. */
+  pending: { exit?: ExitReason; enter?: Side };
+};
+
+export function normaliseAllocation(raw: any): Allocation {
+  const allocation: Allocation = { weighting: "equal" };
+  if (!raw || typeof raw !== "object") return allocation;
+  const maxPositions = Number(raw.maxPositions);
+  const maxPositionPct = Number(raw.maxPositionPct);
+  if (Number.isFinite(maxPositions) && maxPositions >= 1) allocation.maxPositions = Math.floor(maxPositions);
+  if (Number.isFinite(maxPositionPct) && maxPositionPct > 0) allocation.maxPositionPct = Math.min(100, maxPositionPct);
+  return allocation;
+}
+
+export function runPortfolioBacktest(
+  dsl: StrategyDSL,
+  series: Record<string, Row[]>,
+  allocation: Allocation = { weighting: "equal" },
+  references: ReferenceSeries = {},
+): PortfolioResult {
+  const dates = Array.from(new Set(Object.values(series).flatMap((rows) => rows.map((row) => row.date)))).sort();
+  const capital = dsl.capital ?? DEFAULT_CAPITAL;
+  const feeRate = (dsl.costs?.commissionBps ?? 0) / 10_000;
+  const fixedFee = dsl.costs?.commission ?? 0;
+  const slippage = dsl.costs?.slippage;
+  const risk = dsl.risk;
+  const fill = dsl.fill ?? DEFAULT_FILL_POLICY;
+  const nextBar = fill !== "same_close";
+  const riskDelay = fill === "next_open" ? 0 : 1;
+  const { maxBars = 0, minBars = 0, cooldownBars = 0 } = dsl.holding ?? {};
+  // Orders decided on a close fill one bar later under the next-bar policies.
+  const fillDelay = nextBar ? 1 : 0;
+
+  const states: TickerState[] = Object.entries(series)
+    .filter(([, rows]) => rows.length > 0)
+    .map(([ticker, rows]) => {
+      const byDate = new Map(rows.map((row, i) => [row.date, i]));
+      return {
+        ticker,
+        rows,
+        rowIndex: dates.map((date) => byDate.get(date) ?? -1),
+        signals: computeSignals(dsl, rows, { references }),
+        atr: risk?.atrStop ? computeIndicator(rows, "atr", { period: risk.atrStop.period }).value : [],
+        lastClose: Number.NaN,
+        realised: 0,
+        trades: 0,
+        holding: null,
+        lastExitRow: -Infinity,
+        pending: {},
+      };
+    });
+
+  const maxPositions = allocation.maxPositions ?? Math.max(1, states.length);
+  const maxPositionPct = allocation.maxPositionPct ?? 100;
+  const trades: PortfolioTrade[] = [];
+  const equity: number[] = new Array(dates.length).fill(1);
+  let cash = capital;
+  let barsInMarket = 0;
+
+  const markToMarket = () =>
+    states.reduce((total, state) => {
+      if (!state.holding) return total;
+      const value = state.holding.quantity * state.lastClose;
+      return total + (state.holding.side === "long" ? value : -value);
+    }, cash);
+
+  const close = (state: TickerState, k: number, price: number, reason: ExitReason) => {
+    const holding = state.holding!;
+    const bar = state.rows[state.rowIndex[k]];
+    const exitPrice = slippedPrice(bar, holding.side === "short", slippage, price);
+    const notional = holding.quantity * exitPrice;
+    const exitFee = notional * feeRate + fixedFee;
+    const pnl =
+      tradeReturn(holding.side, holding.entryPrice, exitPrice) * holding.quantity * holding.entryPrice -
+      holding.entryFee -
+      exitFee;
+    cash += holding.side === "long" ? notional - exitFee : -notional - exitFee;
+    state.realised += pnl;
+    state.trades++;
+    trades.push({
+      ticker: state.ticker,
+      side: holding.side,
+      quantity: holding.quantity,
+      notional: holding.quantity * holding.entryPrice,
+      entryIdx: holding.entryIdx,
+      exitIdx: k,
+      unit: 1,
+      avgCost: holding.entryPrice,
+      entryPrice: holding.entryPrice,
+      exitPrice,
+      // On the capital committed, notional plus entry fee, as runBacktest reports it.
+      pnl: pnl / (holding.quantity * holding.entryPrice + holding.entryFee),
+      weight: holding.weight,
+      grossPnl: tradeReturn(holding.side, holding.entryBase, price),
+      exitReason: reason,
+    });
+    state.holding = null;
+    state.lastExitRow = state.rowIndex[k];
+  };
+
+  // Sizes entries off current equity, in ticker order, until the position slots run out.
+  const openEntries = (entries: Entry[], k: number) => {
+    const equityNow = markToMarket();
+    let open = states.filter((state) => state.holding).length;
+    for (const { state, side, price } of entries) {
+      if (open >= maxPositions) break;
+      const bar = state.rows[state.rowIndex[k]];
+      const entryPrice = slippedPrice(bar, side === "long", slippage, price);
+      let budget = Math.min(equityNow / maxPositions, (equityNow * maxPositionPct) / 100);
+      if (side === "long") budget = Math.min(budget, cash);
+      const quantity = (budget - fixedFee) / (entryPrice * (1 + feeRate));
+      if (!(quantity > 0)) continue;
+
+      const notional = quantity * entryPrice;
+      const entryFee = notional * feeRate + fixedFee;
+      cash += side === "long" ? -notional - entryFee : notional - entryFee;
+      state.holding = {
+        side,
+        entryIdx: k,
+        entryBase: price,
+        entryPrice,
+        quantity,
+        entryFee,
+        extreme: price,
+        // As of the signal bar, the previous row under the next-bar policies.
+        atrAtEntry: state.atr[state.rowIndex[k] - (nextBar ? 1 : 0)],
+        weight: (notional + entryFee) / equityNow,
+      };
+      open++;
+    }
+  };
+
+  for (let k = 0; k < dates.length; k++) {
+    const active = states.filter((state) => state.rowIndex[k] >= 0);
+    const barOf = (state: TickerState) => state.rows[state.rowIndex[k]];
+    const orders = active.map((state) => state.pending);
+    active.forEach((state) => (state.pending = {}));
+
+    // Orders placed at the previous close fill at the open, before anything else happens on this bar.
+    if (fill === "next_open") {
+      const entries: Entry[] = [];
+      active.forEach((state, n) => {
+        const { open } = barOf(state);
+        if (state.holding && orders[n].exit) close(state, k, open, orders[n].exit!);
+        if (!state.holding && orders[n].enter) entries.push({ state, side: orders[n].enter!, price: open });
+      });
+      openEntries(entries, k);
+    }
+
+    const exited = new Set<TickerState>();
+    const queued: Entry[] = [];
+    active.forEach((state, n) => {
+      const bar = barOf(state);
+      const holding = state.holding;
+      if (holding && k >= holding.entryIdx + riskDelay) {
+        const riskExit = risk ? checkRiskExit(holding, bar, risk, holding.atrAtEntry) : null;
+        if (riskExit) {
+          close(state, k, riskExit.price, riskExit.reason);
+          exited.add(state);
+        } else {
+          holding.extreme = holding.side === "long" ? Math.max(holding.extreme, bar.high) : Math.min(holding.extreme, bar.low);
+        }
+      }
+      if (fill === "next_vwap" || fill === "next_close") {
+        const price = fillPrice(bar, fill);
+        if (state.holding && orders[n].exit) close(state, k, price, orders[n].exit!);
+        if (!state.holding && orders[n].enter) queued.push({ state, side: orders[n].enter!, price });
+      }
+    });
+    openEntries(queued, k);
+
+    // Signals on this bar's close: act now under "same_close", otherwise queue orders for the next bar.
+    const entries: Entry[] = [];
+    for (const state of active) {
+      const i = state.rowIndex[k];
+      const bar = state.rows[i];
+      const { direction, enter, exit: exitSignals } = state.signals;
+      const holding = state.holding;
+      state.lastClose = bar.close;
+
+      if (holding && (nextBar || k > holding.entryIdx)) {
+        const opposite: Side = holding.side === "long" ? "short" : "long";
+        // Holding rules count the ticker's own bars, as runBacktest does.
+        const barsHeld = i + fillDelay - state.rowIndex[holding.entryIdx];
+        const canExit = barsHeld >= minBars;
+        const flip = direction === "both" && enter[opposite][i] && canExit;
+        const reverse = flip && cooldownBars === 0;
+        const reason: ExitReason | null =
+          maxBars && barsHeld >= maxBars
+            ? "time_exit"
+            : reverse
+              ? "reverse"
+              : flip || (canExit && exitSignals[holding.side][i])
+                ? "signal"
+                : null;
+        if (reason && nextBar) {
+          state.pending = { exit: reason, ...(reverse ? { enter: opposite } : {}) };
+        } else if (reason) {
+          close(state, k, bar.close, reason);
+          if (reverse) entries.push({ state, side: opposite, price: bar.close });
+        }
+      } else if (!holding && (nextBar || !exited.has(state)) && i + fillDelay - state.lastExitRow > cooldownBars) {
+        const goLong = direction !== "short" && enter.long[i];
+        const goShort = direction !== "long" && enter.short[i];
+        // Conflicting long and short entries on the same bar are ambiguous; stay flat.
+        if (goLong !== goShort) {
+          const side: Side = goLong ? "long" : "short";
+          if (nextBar) state.pending = { enter: side };
+          else entries.push({ state, side, price: bar.close });
+        }
+      }
+    }
+    openEntries(entries, k);
+
+    if (states.some((state) => state.holding)) barsInMarket++;
+    equity[k] = markToMarket() / capital;
+  }
+
+  const contributions: TickerContribution[] = states.map((state) => {
+    const holding = state.holding;
+    const unrealised = holding
+      ? tradeReturn(holding.side, holding.entryPrice, state.lastClose) * holding.quantity * holding.entryPrice - holding.entryFee
+      : 0;
+    const pnl = state.realised + unrealised;
+    return { ticker: state.ticker, pnl, contributionPct: (100 * pnl) / capital, trades: state.trades };
+  });
+
+  const returns = trades.map((t) => t.pnl);
+  return {
+    name: dsl.name,
+    fill,
+    allocation,
+    dates,
+    equity,
+    trades,
+    contributions,
+    stats: {
+      totalReturnPct: ((equity.at(-1) ?? 1) - 1) * 100,
+      trades: trades.length,
+      winRatePct: returns.length ? (100 * returns.filter((x) => x > 0).length) / returns.length : 0,
+      avgTradePct: returns.length ? (100 * returns.reduce((a, b) => a + b, 0)) / returns.length : 0,
+      ...computePerformance({ equity, dates, trades, barsInMarket }),
+    },
+  };
+}
@@ -0,0 +1,93 @@
+// lib/resample.ts
+import type { Row } from "../types/row";
+
+const MS_PER_DAY = 86_400_000;
+
+/** Bar size a rule is evaluated on. Daily rules run on the loaded bars as they are. */
+export type Timeframe = "daily" | "weekly" | "monthly";
+
+export type HigherTimeframe = Exclude<Timeframe, "daily">;
+
+export const TIMEFRAMES: Timeframe[] = ["daily", "weekly", "monthly"];
+
+/** "daily" and anything unrecognised leave a rule on the loaded bars. */
+export function normaliseTimeframe(raw: unknown): HigherTimeframe | undefined {
+  return raw === "weekly" || raw === "monthly" ? raw : undefined;
+}
+
+/** Identifies the calendar period a date falls in; weeks start on Monday. */
+export function periodKey(date: string, frequency: "weekly" | "monthly" | "quarterly"): string {
+  if (frequency === "monthly") return date.slice(0, 7);
+  if (frequency === "quarterly") return `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+  const time = Date.parse(`${date}T00:00:00Z`);
+  const sinceMonday = (new Date(time).getUTCDay() + 6) % 7;
+  return new Date(time - sinceMonday * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function aggregate(bars: Row[]): Row {
+  const first = bars[0];
+  const last = bars[bars.length - 1];
+  const volume = bars.reduce((total, bar) => total + bar.volume, 0);
+  const withVwap = bars.every((bar) => bar.vwap !== undefined) && volume > 0;
+  const withTransactions = bars.every((bar) => bar.transactions !== undefined);
+  return {
+    ticker: first.ticker,
+    date: last.date,
+    timestamp: last.timestamp,
+    open: first.open,
+    high: Math.max(...bars.map((bar) => bar.high)),
+    low: Math.min(...bars.map((bar) => bar.low)),
+    close: last.close,
+    volume,
+    ...(withVwap ? { vwap: bars.reduce((total, bar) => total + bar.vwap! * bar.volume, 0) / volume } : {}),
+    ...(withTransactions ? { transactions: bars.reduce((total, bar) => total + bar.transactions!, 0) } : {}),
+  };
+}
+
+/**
+ * Aggregates date-sorted bars into one bar per week or month: first open, highest high, lowest low,
+ * last close, summed volume and transactions, and the volume-weighted VWAP. Each bar carries the date
+ * of its last daily bar. The last bar may cover an incomplete period.
+ */
+export function resampleRows(rows: Row[], timeframe: Timeframe): Row[] {
+  if (timeframe === "daily") return rows;
+  const out: Row[] = [];
+  let start = 0;
+  for (let i = 1; i <= rows.length; i++) {
+    if (i === rows.length || periodKey(rows[i].date, timeframe) !== periodKey(rows[start].date, timeframe)) {
+      if (i > start) out.push(aggregate(rows.slice(start, i)));
+      start = i;
+    }
+  }
+  return out;
+}
+
+/**
+ * Higher-timeframe bars and how to bring their series back onto the daily bars. `align` forward-fills
+ * each higher-timeframe value from the first daily bar after its period ends, so a daily bar only sees
+ * completed periods; bars in the first period get NaN.
+ */
+export type TimeframeView = { bars: Row[]; align: (series: number[]) => number[] };
+
+const views = new WeakMap<Row[], Map<Timeframe, TimeframeView>>();
+
+export function timeframeView(rows: Row[], timeframe: Timeframe = "daily"): TimeframeView {
+  if (timeframe === "daily") return { bars: rows, align: (series) => series };
+  let cached = views.get(rows);
+  if (!cached) views.set(rows, (cached = new Map()));
+  let view = cached.get(timeframe);
+  if (!view) {
+    // Position of each daily bar's period among the resampled bars; the previous one is the latest completed.
+    const period: number[] = [];
+    rows.forEach((row, i) => {
+      const previous = period[i - 1] ?? -1;
+      period.push(i > 0 && periodKey(row.date, timeframe) === periodKey(rows[i - 1].date, timeframe) ? previous : previous + 1);
+    });
+    view = {
+      bars: resampleRows(rows, timeframe),
+      align: (series) => period.map((p) => (p > 0 ? series[p - 1] : NaN)),
+    };
+    cached.set(timeframe, view);
+  }
+  return view;
+}
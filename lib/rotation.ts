@@ -0,0 +1,302 @@
+// lib/rotation.ts
+import type { Row } from "../types/row";
+import { computePerformance, mean, stdev, type PerformanceStats } from "./metrics";
+import { periodKey } from "./resample";
+import {
+  DEFAULT_CAPITAL,
+  DEFAULT_FILL_POLICY,
+  FILL_POLICIES,
+  fillPrice,
+  normaliseCosts,
+  slippedPrice,
+  type CostModel,
+  type FillPolicy,
+} from "./strategy-engine";
+
+export type RebalanceFrequency = "weekly" | "monthly" | "quarterly";
+
+/**
+ * How tickers are ranked over the trailing `lookback` bars, highest score first.
+ * - "return": total return.
+ * - "sharpe": mean over standard deviation of daily returns.
+ * - "low_volatility": negative standard deviation of daily returns, so the calmest ranks first.
+ */
+export type RankingMetric = "return" | "sharpe" | "low_volatility";
+
+export type RotationWeighting = "equal" | "inverse_volatility";
+
+/**
+ * A long-only rotation: on the first bar of each period, rank every ticker with enough history and
+ * hold the top `top` (or all of them when fewer qualify), weighted by `weighting`. Tickers scoring at
+ * or below `minScore` are left out and their share stays in cash, e.g. `minScore: 0` with "return"
+ * only holds tickers that went up. Trades smaller than `minTradePct` of equity (default
+ * DEFAULT_MIN_TRADE_PCT) are skipped, so drift between held tickers doesn't pay a fee every period;
+ * tickers dropping out of the targets are always sold in full.
+ */
+export type RotationConfig = {
+  name: string;
+  frequency: RebalanceFrequency;
+  metric: RankingMetric;
+  lookback: number;
+  top: number;
+  weighting: RotationWeighting;
+  minScore?: number;
+  minTradePct?: number;
+  capital?: number;
+  costs?: CostModel;
+  fill: FillPolicy;
+};
+
+export type RotationHolding = { ticker: string; score: number; weight: number; shares: number };
+
+export type Rebalance = {
+  /** Close on which the ranking was made. */
+  date: string;
+  /** Bar the orders filled on; the same as `date` under "same_close". */
+  filledDate: string;
+  holdings: RotationHolding[];
+  /** Value traded as a percentage of equity. */
+  turnoverPct: number;
+  fees: number;
+};
+
+export type RotationStats = {
+  totalReturnPct: number;
+  rebalances: number;
+  avgTurnoverPct: number;
+} & PerformanceStats;
+
+export type RotationResult = {
+  name: string;
+  fill: FillPolicy;
+  frequency: RebalanceFrequency;
+  metric: RankingMetric;
+  weighting: RotationWeighting;
+  /** Union of the tickers' dates from the start date on. */
+  dates: string[];
+  /** Equity in units of starting capital. */
+  equity: number[];
+  /** Holdings history: the portfolio after each rebalance. */
+  rebalances: Rebalance[];
+  stats: RotationStats;
+};
+
+const FREQUENCIES: RebalanceFrequency[] = ["weekly", "monthly", "quarterly"];
+const METRICS: RankingMetric[] = ["return", "sharpe", "low_volatility"];
+
+export const DEFAULT_MIN_TRADE_PCT = 0.1;
+
+export const DEFAULT_ROTATION: RotationConfig = {
+  name: "Rotation",
+  frequency: "monthly",
+  metric: "return",
+  lookback: 126,
+  top: 5,
+  weighting: "equal",
+  fill: DEFAULT_FILL_POLICY,
+};
+
+function positiveInt(value: unknown, fallback: number): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 1 ? n : fallback;
+}
+
+export function normaliseRotation(raw: any): RotationConfig {
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_ROTATION };
+  const minScore = raw.minScore === undefined || raw.minScore === null ? NaN : Number(raw.minScore);
+  const minTradePct = raw.minTradePct === undefined || raw.minTradePct === null ? NaN : Number(raw.minTradePct);
+  const capital = Number(raw.capital);
+  const costs = normaliseCosts(raw.costs);
+  return {
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : DEFAULT_ROTATION.name,
+    frequency: FREQUENCIES.includes(raw.frequency) ? raw.frequency : DEFAULT_ROTATION.frequency,
+    metric: METRICS.includes(raw.metric) ? raw.metric : DEFAULT_ROTATION.metric,
+    lookback: Math.max(2, positiveInt(raw.lookback, DEFAULT_ROTATION.lookback)),
+    top: positiveInt(raw.top, DEFAULT_ROTATION.top),
+    weighting: raw.weighting === "inverse_volatility" ? "inverse_volatility" : "equal",
+    ...(Number.isFinite(minScore) ? { minScore } : {}),
+    ...(Number.isFinite(minTradePct) && minTradePct >= 0 ? { minTradePct } : {}),
+    ...(Number.isFinite(capital) && capital > 0 ? { capital } : {}),
+    ...(costs ? { costs } : {}),
+    fill: FILL_POLICIES.includes(raw.fill) ? raw.fill : DEFAULT_ROTATION.fill,
+  };
+}
+
+function dailyReturns(closes: number[]): number[] {
+  return closes.slice(1).map((close, j) => close / closes[j] - 1);
+}
+
+/** Score and volatility of one ticker from the `lookback + 1` closes ending at the ranking bar. */
+function scoreWindow(closes: number[], metric: RankingMetric): { score: number; volatility: number } {
+  const returns = dailyReturns(closes);
+  const volatility = stdev(returns);
+  const score =
+    metric === "return"
+      ? closes[closes.length - 1] / closes[0] - 1
+      : metric === "sharpe"
+        ? volatility > 0
+          ? mean(returns) / volatility
+          : NaN
+        : -volatility;
+  return { score, volatility };
+}
+
+type TickerSeries = { ticker: string; rows: Row[]; rowIndex: number[]; shares: number; lastClose: number };
+
+type Target = { ticker: string; score: number; weight: number };
+
+/**
+ * Runs a rotation over `series`, which may include history before `startDate` so the first
+ * ranking already has a full lookback. Rankings use closes up to and including the rebalance bar;
+ * sells are filled before buys, and buys are scaled down when fees would overdraw the cash.
+ */
+export function runRotationBacktest(
+  config: RotationConfig,
+  series: Record<string, Row[]>,
+  options: { startDate?: string } = {},
+): RotationResult {
+  const startDate = options.startDate ?? "";
+  const dates = Array.from(new Set(Object.values(series).flatMap((rows) => rows.map((row) => row.date))))
+    .filter((date) => date >= startDate)
+    .sort();
+  const capital = config.capital ?? DEFAULT_CAPITAL;
+  const feeRate = (config.costs?.commissionBps ?? 0) / 10_000;
+  const fixedFee = config.costs?.commission ?? 0;
+  const slippage = config.costs?.slippage;
+  const nextBar = config.fill !== "same_close";
+  const minTradeFraction = (config.minTradePct ?? DEFAULT_MIN_TRADE_PCT) / 100;
+
+  const tickers: TickerSeries[] = Object.entries(series)
+    .filter(([, rows]) => rows.length > 0)
+    .map(([ticker, rows]) => {
+      const byDate = new Map(rows.map((row, i) => [row.date, i]));
+      const first = rows.findIndex((row) => row.date >= startDate);
+      return {
+        ticker,
+        rows,
+        rowIndex: dates.map((date) => byDate.get(date) ?? -1),
+        shares: 0,
+        lastClose: first > 0 ? rows[first - 1].close : Number.NaN,
+      };
+    });
+
+  const equity: number[] = new Array(dates.length).fill(1);
+  const rebalances: Rebalance[] = [];
+  let cash = capital;
+  let pending: { date: string; targets: Target[] } | null = null;
+  let barsInMarket = 0;
+
+  const rank = (k: number): Target[] => {
+    const scored = tickers.flatMap((state) => {
+      const i = state.rowIndex[k];
+      if (i < config.lookback) return [];
+      const closes = state.rows.slice(i - config.lookback, i + 1).map((row) => row.close);
+      const { score, volatility } = scoreWindow(closes, config.metric);
+      return Number.isFinite(score) ? [{ ticker: state.ticker, score, volatility }] : [];
+    });
+    const slots = Math.min(config.top, scored.length);
+    const selected = scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, slots)
+      .filter(({ score }) => config.minScore === undefined || score > config.minScore);
+    const inverse = config.weighting === "inverse_volatility" && selected.every(({ volatility }) => volatility > 0);
+    // Slots whose ticker failed minScore stay in cash, so the held tickers share selected/slots of equity.
+    const raw = selected.map(({ volatility }) => (inverse ? 1 / volatility : 1));
+    const total = inverse ? (raw.reduce((a, b) => a + b, 0) * slots) / Math.max(1, selected.length) : slots;
+    return selected.map(({ ticker, score }, n) => ({ ticker, score, weight: raw[n] / total }));
+  };
+
+  const rebalance = (k: number, date: string, targets: Target[], priceOf: (state: TickerSeries, i: number) => number) => {
+    const prices = tickers.map((state) => {
+      const i = state.rowIndex[k];
+      return i >= 0 ? priceOf(state, i) : state.lastClose;
+    });
+    const equityNow = tickers.reduce((total, state, n) => total + (state.shares ? state.shares * prices[n] : 0), cash);
+    const weights = new Map(targets.map((target) => [target.ticker, target]));
+    const deltas = tickers.map((state, n) => {
+      // A ticker without a bar on the fill date can't be traded and keeps its shares.
+      if (state.rowIndex[k] < 0) return 0;
+      const target = ((weights.get(state.ticker)?.weight ?? 0) * equityNow) / prices[n];
+      const delta = target - state.shares;
+      return target > 0 && Math.abs(delta) * prices[n] < minTradeFraction * equityNow ? 0 : delta;
+    });
+
+    let traded = 0;
+    let fees = 0;
+    const trade = (n: number, quantity: number) => {
+      const state = tickers[n];
+      const bar = state.rows[state.rowIndex[k]];
+      const price = slippedPrice(bar, quantity > 0, slippage, prices[n]);
+      const notional = Math.abs(quantity) * price;
+      const fee = notional * feeRate + fixedFee;
+      cash -= quantity * price + fee;
+      state.shares += quantity;
+      traded += notional;
+      fees += fee;
+    };
+
+    deltas.forEach((delta, n) => {
+      if (delta < 0) trade(n, delta);
+    });
+    const buys = deltas.map((delta, n) => ({ n, delta })).filter(({ delta }) => delta > 0);
+    const needed = buys.reduce((total, { n, delta }) => {
+      const bar = tickers[n].rows[tickers[n].rowIndex[k]];
+      return total + delta * slippedPrice(bar, true, slippage, prices[n]) * (1 + feeRate) + fixedFee;
+    }, 0);
+    const scale = needed > cash ? Math.max(0, cash) / needed : 1;
+    buys.forEach(({ n, delta }) => trade(n, delta * scale));
+
+    rebalances.push({
+      date,
+      filledDate: dates[k],
+      holdings: targets.map(({ ticker, score, weight }) => ({
+        ticker,
+        score,
+        weight,
+        shares: tickers.find((state) => state.ticker === ticker)!.shares,
+      })),
+      turnoverPct: equityNow > 0 ? (100 * traded) / equityNow : 0,
+      fees,
+    });
+  };
+
+  for (let k = 0; k < dates.length; k++) {
+    if (pending) {
+      rebalance(k, pending.date, pending.targets, (state, i) => fillPrice(state.rows[i], config.fill));
+      pending = null;
+    }
+    for (const state of tickers) {
+      const i = state.rowIndex[k];
+      if (i >= 0) state.lastClose = state.rows[i].close;
+    }
+
+    const newPeriod = k === 0 || periodKey(dates[k], config.frequency) !== periodKey(dates[k - 1], config.frequency);
+    if (newPeriod) {
+      const targets = rank(k);
+      if (!nextBar) rebalance(k, dates[k], targets, (state, i) => state.rows[i].close);
+      else if (k < dates.length - 1) pending = { date: dates[k], targets };
+    }
+
+    const value = tickers.reduce((total, state) => total + (state.shares ? state.shares * state.lastClose : 0), 0);
+    if (tickers.some((state) => state.shares > 0)) barsInMarket++;
+    equity[k] = (cash + value) / capital;
+  }
+
+  const turnovers = rebalances.map((r) => r.turnoverPct);
+  return {
+    name: config.name,
+    fill: config.fill,
+    frequency: config.frequency,
+    metric: config.metric,
+    weighting: config.weighting,
+    dates,
+    equity,
+    rebalances,
+    stats: {
+      totalReturnPct: ((equity.at(-1) ?? 1) - 1) * 100,
+      rebalances: rebalances.length,
+      avgTurnoverPct: mean(turnovers),
+      ...computePerformance({ equity, dates, trades: [], barsInMarket }),
+    },
+  };
+}
@@ -1,5 +1,12 @@
 import type { Row } from "@/types/row";
 import { S3_BASE } from "@/lib/env";
+import {
+  actionsUrl,
+  adjustPrices,
+  normaliseCorporateActions,
+  type CorporateActions,
+  type PriceMode,
+} from "@/lib/corporate-actions";
 
 export type ManifestItem = {
   ticker: string;
@@ -204,6 +211,67 @@ export async function readTickerRange(
   });
 }
 
+const cachedActions = new Map<string, { value: CorporateActions | null; expiresAt: number }>();
+
+/** Reads the `<TICKER>.actions.json` stored next to a ticker's bar file; null when there is none or it cannot be read. */
+export async function readCorporateActions(ticker: string): Promise<CorporateActions | null> {
+  const key = ticker.toUpperCase();
+  const cached = cachedActions.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const manifest = await loadManifest();
+  const match = manifest.tickers.find((item) => item.ticker.toUpperCase() === key);
+  let value: CorporateActions | null = null;
+  if (match) {
+    // Actions are optional: a missing, unreachable or malformed file means unadjusted bars, not a failed run.
+    try {
+      const res = await fetch(actionsUrl(match.url), { cache: "no-store" });
+      if (res.ok) value = normaliseCorporateActions(await res.json(), key);
+    } catch (error) {
+      console.warn(`Ignoring corporate actions for ${key}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  cachedActions.set(key, { value, expiresAt: Date.now() + 60_000 });
+  return value;
+}
+
+/**
+ * Like readTickerRange, with prices converted to `mode`. The adjustment runs over the full history
+ * before the range is cut. Without stored corporate actions the bars are returned as stored, which
+ * is reported as "split_adjusted" since that is what the REST download fetches.
+ */
+export async function readAdjustedRange(
+  ticker: string,
+  startDate: string | undefined,
+  endDate: string | undefined,
+  mode: PriceMode,
+): Promise<{ rows: Row[]; prices: PriceMode }> {
+  const [rows, actions] = await Promise.all([readTickerRange(ticker), readCorporateActions(ticker)]);
+  const adjusted = actions ? adjustPrices(rows, actions, mode) : rows;
+  return {
+    rows: adjusted.filter(
+      (row) => (startDate ? row.date >= startDate : true) && (endDate ? row.date <= endDate : true),
+    ),
+    prices: actions ? mode : "split_adjusted",
+  };
+}
+
+/**
+ * Loads reference series such as a regime filter's index. Only `endDate` bounds the range, so the
+ * history before a backtest's start is available to warm up indicators. Tickers without data are omitted.
+ */
+export async function readReferenceSeries(tickers: string[], endDate?: string): Promise<Record<string, Row[]>> {
+  const series: Record<string, Row[]> = {};
+  for (const ticker of tickers) {
+    const rows = await readTickerRange(ticker, undefined, endDate);
+    if (rows.length) series[ticker] = rows;
+  }
+  return series;
+}
+
 export async function safeReadParquet(ticker = "AAPL"): Promise<Row[]> {
   return readTickerRange(ticker, "1900-01-01", "2099-12-31");
 }
@@ -0,0 +1,115 @@
+// lib/sizing.ts
+import type { Row } from "../types/row";
+import { ATR, StdDev } from "./indicators";
+
+/**
+ * How much of the account a new position takes. Fractions are of current equity; every model is
+ * further capped by the cash on hand for longs.
+ * - "fixed_fraction": commit `fraction` of equity (1 = all in, the default).
+ * - "fixed_shares": buy or short a fixed number of shares.
+ * - "volatility": size so that one unit of volatility (an ATR, or the rolling stdev of returns in
+ *   price terms) moves equity by `riskPct`, capped at `maxFraction`.
+ * - "kelly": commit `multiplier` x the Kelly fraction implied by the trades closed so far, capped at
+ *   `maxFraction`. Until `minTrades` trades have closed there is too little evidence for an estimate, so
+ *   positions take the small `initialFraction` (default 5%, never above `maxFraction`).
+ */
+export type PositionSizing =
+  | { type: "fixed_fraction"; fraction: number }
+  | { type: "fixed_shares"; shares: number }
+  | { type: "volatility"; measure: "atr" | "stdev"; period: number; riskPct: number; maxFraction: number }
+  | { type: "kelly"; multiplier: number; maxFraction: number; minTrades: number; initialFraction: number };
+
+export const SIZING_TYPES: PositionSizing["type"][] = ["fixed_fraction", "fixed_shares", "volatility", "kelly"];
+
+function positive(value: unknown, fallback: number): number {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function normaliseSizing(raw: any): PositionSizing | undefined {
+  if (!raw || typeof raw !== "object" || !SIZING_TYPES.includes(raw.type)) return undefined;
+  switch (raw.type as PositionSizing["type"]) {
+    case "fixed_fraction":
+      return { type: "fixed_fraction", fraction: positive(raw.fraction, 1) };
+    case "fixed_shares":
+      return { type: "fixed_shares", shares: positive(raw.shares, 1) };
+    case "volatility":
+      return {
+        type: "volatility",
+        measure: raw.measure === "stdev" ? "stdev" : "atr",
+        period: Math.round(positive(raw.period, 20)),
+        riskPct: positive(raw.riskPct, 1),
+        maxFraction: positive(raw.maxFraction, 1),
+      };
+    case "kelly":
+      return {
+        type: "kelly",
+        multiplier: positive(raw.multiplier, 0.5),
+        maxFraction: Math.min(positive(raw.maxFraction, 0.25), 1),
+        minTrades: Math.round(positive(raw.minTrades, 10)),
+        initialFraction: Math.min(positive(raw.initialFraction, 0.05), 1),
+      };
+  }
+}
+
+/**
+ * Per-bar volatility of one share in price units, for volatility-targeted sizing: the ATR, or the
+ * rolling stdev of close-to-close returns scaled by the close.
+ */
+export function volatilitySeries(rows: Row[], sizing: Extract<PositionSizing, { type: "volatility" }>): number[] {
+  const closes = rows.map((r) => r.close);
+  if (sizing.measure === "atr") {
+    return ATR(rows.map((r) => r.high), rows.map((r) => r.low), closes, sizing.period);
+  }
+  const returns = closes.map((close, i) => (i > 0 && closes[i - 1] ? close / closes[i - 1] - 1 : NaN));
+  const stdev = StdDev(returns, sizing.period);
+  return stdev.map((value, i) => value * closes[i]);
+}
+
+/** Kelly fraction W - (1 - W) / R from trade returns, where R is the average win over the average loss. */
+export function kellyFraction(pnls: number[]): number {
+  const wins = pnls.filter((p) => p > 0);
+  const losses = pnls.filter((p) => p < 0);
+  if (!pnls.length) return 0;
+  if (!losses.length) return 1;
+  if (!wins.length) return 0;
+  const winRate = wins.length / pnls.length;
+  const payoff = wins.reduce((a, b) => a + b, 0) / wins.length / (-losses.reduce((a, b) => a + b, 0) / losses.length);
+  return winRate - (1 - winRate) / payoff;
+}
+
+export type SizingContext = {
+  equity: number;
+  price: number;
+  /** Volatility of one share at the signal bar, from volatilitySeries. */
+  volatility?: number;
+  /** Returns of the trades closed so far. */
+  closedPnls: number[];
+};
+
+/**
+ * The currency amount to commit to a new position, before costs. Returns 0 when the model says not
+ * to trade (e.g. a negative Kelly fraction, or volatility not yet defined).
+ */
+export function positionBudget(sizing: PositionSizing | undefined, ctx: SizingContext): number {
+  const { equity, price } = ctx;
+  if (!sizing) return equity;
+  switch (sizing.type) {
+    case "fixed_fraction":
+      return equity * sizing.fraction;
+    case "fixed_shares":
+      return sizing.shares * price;
+    case "volatility": {
+      if (!(ctx.volatility && ctx.volatility > 0)) return 0;
+      const shares = (equity * sizing.riskPct) / 100 / ctx.volatility;
+      return Math.min(shares * price, equity * sizing.maxFraction);
+    }
+    case "kelly": {
+      const fraction =
+        ctx.closedPnls.length < sizing.minTrades
+          ? Math.min(sizing.initialFraction, sizing.maxFraction)
+          : Math.min(Math.max(sizing.multiplier * kellyFraction(ctx.closedPnls), 0), sizing.maxFraction);
+      return equity * fraction;
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import type { Row } from "../types/row";
-import { MACD, RSI, SMA, EMA } from "./indicators";
+import { computeIndicator } from "./indicator-registry";
+import { computePerformance, type PerformanceStats } from "./metrics";
+import { compareSignals, normaliseCompareRule, type CompareRule } from "./comparisons";
+import { entryFilterMask, normaliseFilters, type EntryFilter, type ReferenceSeries } from "./filters";
+import { normaliseTimeframe, timeframeView, type HigherTimeframe } from "./resample";
+import { normaliseSizing, positionBudget, volatilitySeries, type PositionSizing } from "./sizing";
 
 type MacdRule = {
   type: "macd_cross";
@@ -10,6 +15,7 @@ type MacdRule = {
     enter?: "bull" | "bear";
     exit?: "bull" | "bear";
   };
+  timeframe?: HigherTimeframe;
 };
 
 type RsiRule = {
@@ -21,6 +27,7 @@ type RsiRule = {
     enter?: "long" | "short";
     exit?: "long" | "short";
   };
+  timeframe?: HigherTimeframe;
 };
 
 type CrossRule = {
@@ -31,24 +38,211 @@ type CrossRule = {
     enter?: "fast_above" | "fast_below";
     exit?: "fast_above" | "fast_below";
   };
+  timeframe?: HigherTimeframe;
 };
 
-type Rule = MacdRule | RsiRule | CrossRule;
+type Rule = MacdRule | RsiRule | CrossRule | CompareRule;
+
+export type Side = "long" | "short";
+
+/**
+ * Boolean composition of rules. In an `entry` tree each leaf contributes its entry signal, in an
+ * `exit` tree its exit signal. `side` pins which side the tree opens or closes; without it the
+ * strategy direction is used, or the leaves' own sides for "both" strategies.
+ */
+export type RuleGroup =
+  | { all: Condition[]; side?: Side }
+  | { any: Condition[]; side?: Side }
+  | { not: Condition; side?: Side };
+
+export type Condition = Rule | RuleGroup;
+
+/**
+ * Which sides a strategy may hold. "both" turns the strategy into a stop-and-reverse
+ * system: any signal that would close one side opens the other.
+ */
+export type Direction = "long" | "short" | "both";
+
+export type Slippage = { type: "bps"; value: number } | { type: "range"; fraction: number };
+
+export type CostModel = {
+  /** Flat commission charged on every fill, in account currency. */
+  commission?: number;
+  /** Commission in basis points of the filled notional. */
+  commissionBps?: number;
+  /** Adverse price adjustment: fixed basis points, or a fraction of the bar's high-low range. */
+  slippage?: Slippage;
+};
+
+/**
+ * Price-based exits checked intrabar against each bar's high/low. Percentages are
+ * measured from the entry fill price; when several stops are set the tightest wins.
+ */
+export type RiskRules = {
+  stopLossPct?: number;
+  takeProfitPct?: number;
+  /** Stop placed `multiple` ATRs away from the entry, using the ATR on the bar the entry was signalled. */
+  atrStop?: { period: number; multiple: number };
+  /** Stop trailing the best price reached since entry. */
+  trailingStopPct?: number;
+};
+
+/**
+ * Repeated entry signals on the held side add a unit, up to `maxUnits` entries. The n-th signal
+ * exit closes `exitFractions[n]` of the open quantity (oldest lots first); once the list runs out,
+ * a signal exit closes the rest. Risk exits and reversals always close everything.
+ */
+export type ScalingRules = {
+  maxUnits: number;
+  exitFractions: number[];
+};
+
+export type ExitReason =
+  | "signal"
+  | "reverse"
+  | "stop_loss"
+  | "atr_stop"
+  | "trailing_stop"
+  | "take_profit"
+  | "time_exit";
+
+/**
+ * Bar-count limits on positions, counted in bars from the first entry fill.
+ * - `maxBars`: close the position once it has been held this many bars ("time_exit").
+ * - `minBars`: ignore signal exits and reversals until the position has been held this long; risk exits still apply.
+ * - `cooldownBars`: after a position is fully closed, don't open a new one for this many bars.
+ */
+export type HoldingRules = {
+  maxBars?: number;
+  minBars?: number;
+  cooldownBars?: number;
+};
+
+/**
+ * Where orders from signals evaluated on a bar's close are filled. "same_close" fills at that
+ * close, which assumes the close can be traded on after seeing it; the next-bar policies fill on
+ * the following bar instead. Risk exits are intrabar and unaffected.
+ */
+export type FillPolicy = "same_close" | "next_open" | "next_vwap" | "next_close";
+
+export const FILL_POLICIES: FillPolicy[] = ["same_close", "next_open", "next_vwap", "next_close"];
+
+/** Used by normaliseDsl for strategies that don't choose a policy. */
+export const DEFAULT_FILL_POLICY: FillPolicy = "next_open";
 
 export type StrategyDSL = {
   name: string;
+  direction?: Direction;
+  /** Starting capital in account currency. */
+  capital?: number;
+  costs?: CostModel;
+  risk?: RiskRules;
+  /** Defaults to committing all available equity to each position. */
+  sizing?: PositionSizing;
+  /** Pyramiding and partial exits; without it a position is a single unit closed in full. */
+  scaling?: ScalingRules;
+  holding?: HoldingRules;
+  /** Calendar conditions every entry must pass; exits are not filtered. */
+  filters?: EntryFilter[];
+  /** Defaults to DEFAULT_FILL_POLICY when absent. */
+  fill?: FillPolicy;
+  /** Flat rules act as an implicit "any" for both entries and exits. */
   rules: Rule[];
+  /** When present, replaces the entry signals from `rules`. */
+  entry?: Condition;
+  /** When present, replaces the exit signals from `rules`. */
+  exit?: Condition;
 };
 
+/** A closed lot, or the closed part of one after a partial exit. */
+export type Trade = {
+  side: Side;
+  entryIdx: number;
+  exitIdx: number;
+  /** Which entry of the position this lot was, 1 for the initial entry. */
+  unit: number;
+  /** Average entry price of the whole position at the time of the exit. */
+  avgCost: number;
+  /** Shares bought or sold short. */
+  quantity: number;
+  /** Entry notional (quantity x entry fill price), in account currency. */
+  notional: number;
+  /** Fill prices, after slippage. */
+  entryPrice: number;
+  exitPrice: number;
+  /** Return on the capital committed to the trade (notional plus entry costs), net of costs. */
+  pnl: number;
+  /** Share of account equity committed at entry, so `weight * pnl` is the trade's return on the account. */
+  weight: number;
+  /** Return at the raw fill prices, before slippage and commissions. */
+  grossPnl: number;
+  exitReason: ExitReason;
+};
+
+export type BacktestStats = {
+  /** Net of costs; same as netReturnPct. */
+  totalReturnPct: number;
+  grossReturnPct: number;
+  netReturnPct: number;
+  trades: number;
+  winRatePct: number;
+  avgTradePct: number;
+  /** Average share of equity held in the position at each close, in percent. */
+  avgExposurePct: number;
+} & PerformanceStats;
+
 export type BacktestResult = {
   name: string;
-  trades: { entryIdx: number; exitIdx: number; entryPrice: number; exitPrice: number; pnl: number }[];
+  fill: FillPolicy;
+  trades: Trade[];
+  /** Equity in units of starting capital at each close. */
   equity: number[];
-  stats: { totalReturnPct: number; trades: number; winRatePct: number; avgTradePct: number };
+  /** Cash in account currency at each close; short sale proceeds are included. */
+  cash: number[];
+  /** Shares held at each close, negative when short. */
+  shares: number[];
+  /** Position value as a fraction of equity at each close. */
+  exposure: number[];
+  stats: BacktestStats;
 };
 
+export const DEFAULT_CAPITAL = 100_000;
+
 type Mkt = Row;
 
+/** One entry fill of a position; pyramided positions hold several. Amounts are in account currency. */
+export type Lot = {
+  /** 1-based number of the entry within its position. */
+  unit: number;
+  entryIdx: number;
+  /** Unslipped reference price of the entry fill. */
+  entryBase: number;
+  entryPrice: number;
+  quantity: number;
+  entryFee: number;
+  /** Notional plus entry costs: the capital the lot's return is measured against. */
+  committed: number;
+  /** Committed capital as a fraction of equity at entry, for the gross return. */
+  weight: number;
+};
+
+export type OpenPosition = {
+  side: Side;
+  /** Bar of the first entry. */
+  entryIdx: number;
+  /** Open lots, oldest first; partial exits close them first-in, first-out. */
+  lots: Lot[];
+  /** Quantity-weighted average entry fill price of the open lots; risk stops are measured from it. */
+  entryPrice: number;
+  quantity: number;
+  /** Entries made so far, including lots already closed. */
+  units: number;
+  /** Signal exits taken so far, indexing into the scale-out fractions. */
+  exitsTaken: number;
+  /** Best price seen since entry (highest high for longs, lowest low for shorts), for trailing stops. */
+  extreme: number;
+};
+
 function normaliseNumber(value: unknown): number {
   if (typeof value === "number") return value;
   if (typeof value === "string" && value.trim() !== "") return Number(value);
@@ -61,6 +255,286 @@ function numberOr(value: unknown, fallback: number): number {
   return Number.isFinite(n) ? n : fallback;
 }
 
+/** The side a rule's entry signal opens. Bearish entries (bear cross, overbought RSI, fast below slow) open shorts. */
+function entrySide(rule: Rule): Side {
+  switch (rule.type) {
+    case "macd_cross":
+      return rule.params.enter === "bear" ? "short" : "long";
+    case "rsi_threshold":
+      return rule.params.enter === "short" ? "short" : "long";
+    case "compare":
+      return rule.side ?? "long";
+    default:
+      return rule.params.enter === "fast_below" ? "short" : "long";
+  }
+}
+
+/**
+ * The side a rule's exit signal closes. Bullish exits (bull cross, oversold RSI, fast above slow) cover shorts.
+ * A rule without an `exit` closes the side it enters, see ruleSignals.
+ */
+function exitSide(rule: Rule): Side {
+  if (rule.type !== "compare" && rule.params.exit === undefined) return entrySide(rule);
+  switch (rule.type) {
+    case "macd_cross":
+      return rule.params.exit === "bull" ? "short" : "long";
+    case "rsi_threshold":
+      return rule.params.exit === "short" ? "short" : "long";
+    case "compare":
+      return rule.side ?? "long";
+    default:
+      return rule.params.exit === "fast_above" ? "short" : "long";
+  }
+}
+
+/** Whether a flat rule contributes entries and exits; comparisons only do one or the other. */
+function ruleRoles(rule: Rule): { enter: boolean; exit: boolean } {
+  if (rule.type !== "compare") return { enter: true, exit: true };
+  return { enter: rule.signal !== "exit", exit: rule.signal === "exit" };
+}
+
+function isRule(node: Condition): node is Rule {
+  return "type" in node;
+}
+
+function conditionLeaves(node: Condition): Rule[] {
+  if (isRule(node)) return [node];
+  if ("not" in node) return conditionLeaves(node.not);
+  return ("all" in node ? node.all : node.any).flatMap(conditionLeaves);
+}
+
+/** The side a condition tree acts on: explicit, else the strategy direction, else short only when every leaf is short. */
+function conditionSide(node: Condition, kind: "enter" | "exit", direction?: Direction): Side {
+  if (!isRule(node) && node.side) return node.side;
+  if (direction === "long" || direction === "short") return direction;
+  const sideOf = kind === "enter" ? entrySide : exitSide;
+  return conditionLeaves(node).every((leaf) => sideOf(leaf) === "short") ? "short" : "long";
+}
+
+/** Strategies whose entries are all short trade the short side; everything else defaults to long-only. */
+function inferDirection(dsl: Pick<StrategyDSL, "rules" | "entry">): Direction {
+  if (dsl.entry) return conditionSide(dsl.entry, "enter");
+  const entering = dsl.rules.filter((rule) => ruleRoles(rule).enter);
+  return entering.length > 0 && entering.every((rule) => entrySide(rule) === "short") ? "short" : "long";
+}
+
+export function tradeReturn(side: Side, entry: number, exit: number): number {
+  return side === "long" ? (exit - entry) / entry : (entry - exit) / entry;
+}
+
+/** The unslipped price an order fills at on `bar` under `policy`. VWAP falls back to the typical price. */
+export function fillPrice(bar: Mkt, policy: FillPolicy): number {
+  switch (policy) {
+    case "next_open":
+      return bar.open;
+    case "next_vwap":
+      return bar.vwap ?? (bar.high + bar.low + bar.close) / 3;
+    default:
+      return bar.close;
+  }
+}
+
+export function slippedPrice(bar: Mkt, buying: boolean, slippage?: Slippage, price = bar.close): number {
+  if (!slippage) return price;
+  const amount = slippage.type === "bps" ? (price * slippage.value) / 10_000 : (bar.high - bar.low) * slippage.fraction;
+  return buying ? price + amount : price - amount;
+}
+
+/**
+ * Checks the risk stops of an open position against a bar. Stops that the bar gaps through
+ * fill at the open. When a bar touches both the stop and the target we cannot know which came
+ * first, so the stop is assumed to have been hit.
+ */
+export function checkRiskExit(
+  position: Pick<OpenPosition, "side" | "entryPrice" | "extreme">,
+  bar: Mkt,
+  risk: RiskRules,
+  atrAtEntry: number,
+): { price: number; reason: ExitReason } | null {
+  const sign = position.side === "long" ? 1 : -1;
+  const entry = position.entryPrice;
+
+  const stops: { level: number; reason: ExitReason }[] = [];
+  if (risk.stopLossPct) stops.push({ level: entry * (1 - (sign * risk.stopLossPct) / 100), reason: "stop_loss" });
+  if (risk.atrStop && Number.isFinite(atrAtEntry)) {
+    stops.push({ level: entry - sign * risk.atrStop.multiple * atrAtEntry, reason: "atr_stop" });
+  }
+  if (risk.trailingStopPct) {
+    stops.push({ level: position.extreme * (1 - (sign * risk.trailingStopPct) / 100), reason: "trailing_stop" });
+  }
+
+  // Tightest stop: the highest level for longs, the lowest for shorts.
+  const stop = stops.reduce<(typeof stops)[number] | null>(
+    (best, candidate) => (!best || sign * candidate.level > sign * best.level ? candidate : best),
+    null,
+  );
+  if (stop) {
+    const adverse = position.side === "long" ? bar.low : bar.high;
+    if (sign * bar.open <= sign * stop.level) return { price: bar.open, reason: stop.reason };
+    if (sign * adverse <= sign * stop.level) return { price: stop.level, reason: stop.reason };
+  }
+
+  if (risk.takeProfitPct) {
+    const target = entry * (1 + (sign * risk.takeProfitPct) / 100);
+    const favourable = position.side === "long" ? bar.high : bar.low;
+    if (sign * bar.open >= sign * target) return { price: bar.open, reason: "take_profit" };
+    if (sign * favourable >= sign * target) return { price: target, reason: "take_profit" };
+  }
+
+  return null;
+}
+
+function normaliseRisk(raw: any): RiskRules | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const positive = (value: unknown) => {
+    const n = normaliseNumber(value);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  const risk: RiskRules = {
+    stopLossPct: positive(raw.stopLossPct),
+    takeProfitPct: positive(raw.takeProfitPct),
+    trailingStopPct: positive(raw.trailingStopPct),
+  };
+  const multiple = positive(raw.atrStop?.multiple);
+  if (multiple) {
+    risk.atrStop = { period: Math.round(numberOr(raw.atrStop.period, 14)), multiple };
+  }
+  return risk;
+}
+
+function normaliseHolding(raw: any): HoldingRules | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const bars = (value: unknown) => {
+    const n = Math.floor(normaliseNumber(value));
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  const holding: HoldingRules = {
+    maxBars: bars(raw.maxBars),
+    minBars: bars(raw.minBars),
+    cooldownBars: bars(raw.cooldownBars),
+  };
+  return holding.maxBars || holding.minBars || holding.cooldownBars ? holding : undefined;
+}
+
+function normaliseScaling(raw: any): ScalingRules | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const maxUnits = Math.max(1, Math.floor(numberOr(raw.maxUnits, 1)));
+  const fractions: unknown[] = Array.isArray(raw.exitFractions) ? raw.exitFractions : [];
+  const exitFractions = fractions.map(normaliseNumber).filter((f) => Number.isFinite(f) && f > 0 && f <= 1);
+  return { maxUnits, exitFractions };
+}
+
+export function normaliseCosts(raw: any): CostModel | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const nonNegative = (value: unknown) => Math.max(0, numberOr(value, 0));
+  const costs: CostModel = {
+    commission: nonNegative(raw.commission),
+    commissionBps: nonNegative(raw.commissionBps),
+  };
+  const slippage = raw.slippage;
+  if (slippage?.type === "bps") {
+    costs.slippage = { type: "bps", value: nonNegative(slippage.value) };
+  } else if (slippage?.type === "range") {
+    costs.slippage = { type: "range", fraction: Math.min(1, nonNegative(slippage.fraction)) };
+  } else if (Number.isFinite(normaliseNumber(slippage))) {
+    costs.slippage = { type: "bps", value: nonNegative(slippage) };
+  }
+  return costs;
+}
+
+export const RULE_TYPES: Rule["type"][] = ["macd_cross", "rsi_threshold", "sma_cross", "ema_cross", "compare"];
+
+/** Weekly or monthly rules compute their indicators on resampled bars; see lib/resample.ts. */
+function normaliseRule(raw: any): Rule | null {
+  const rule = parseRule(raw);
+  const timeframe = normaliseTimeframe(raw?.timeframe ?? raw?.params?.timeframe);
+  return rule && timeframe ? { ...rule, timeframe } : rule;
+}
+
+function parseRule(raw: any): Rule | null {
+  // Comparisons may leave out the type: `{ left, op, right }`.
+  if (raw?.type === "compare" || (raw && raw.type === undefined && "left" in raw && "op" in raw)) {
+    return normaliseCompareRule(raw);
+  }
+  if (!RULE_TYPES.includes(raw?.type)) return null;
+  const entry: { type: Rule["type"]; params: any; raw: any } = { type: raw.type, params: raw.params ?? {}, raw };
+
+  switch (entry.type) {
+    case "macd_cross": {
+      const enterParam = entry.params.enter ?? entry.raw?.enter;
+      const exitParam = entry.params.exit ?? entry.raw?.exit;
+      const enter = enterParam === "bear" ? "bear" : enterParam === "bull" ? "bull" : undefined;
+      const exit = exitParam === "bear" ? "bear" : exitParam === "bull" ? "bull" : undefined;
+      return {
+        type: "macd_cross" as const,
+        params: {
+          fast: numberOr(entry.params.fast, 12),
+          slow: numberOr(entry.params.slow, 26),
+          signal: numberOr(entry.params.signal, 9),
+          enter,
+          exit,
+        },
+      } satisfies MacdRule;
+    }
+    case "rsi_threshold": {
+      const enterParam = entry.params.enter ?? entry.raw?.enter;
+      const exitParam = entry.params.exit ?? entry.raw?.exit;
+      const enter = enterParam === "short" ? "short" : enterParam === "long" ? "long" : undefined;
+      const exit = exitParam === "short" ? "short" : exitParam === "long" ? "long" : undefined;
+      return {
+        type: "rsi_threshold" as const,
+        params: {
+          period: numberOr(entry.params.period, 14),
+          low: Number.isFinite(normaliseNumber(entry.params.low)) ? Number(entry.params.low) : undefined,
+          high: Number.isFinite(normaliseNumber(entry.params.high)) ? Number(entry.params.high) : undefined,
+          enter,
+          exit,
+        },
+      } satisfies RsiRule;
+    }
+    case "sma_cross":
+    case "ema_cross": {
+      const enterParam = entry.params.enter ?? entry.raw?.enter;
+      const exitParam = entry.params.exit ?? entry.raw?.exit;
+      const mapDirection = (value: any): "fast_above" | "fast_below" | undefined => {
+        if (value === "fast_above" || value === "fast_below") return value;
+        if (value === "long") return "fast_above";
+        if (value === "short") return "fast_below";
+        return undefined;
+      };
+      return {
+        type: entry.type,
+        params: {
+          fast: numberOr(entry.params.fast, 10),
+          slow: numberOr(entry.params.slow, 20),
+          enter: mapDirection(enterParam),
+          exit: mapDirection(exitParam),
+        },
+      } satisfies CrossRule;
+    }
+    default:
+      throw new Error(`Unsupported rule type: ${String(entry.type)}`);
+  }
+}
+
+function normaliseCondition(raw: any): Condition | null {
+  if (!raw || typeof raw !== "object") return null;
+  const side: Side | undefined = raw.side === "long" || raw.side === "short" ? raw.side : undefined;
+  const withSide = <T extends RuleGroup>(group: T): T => (side ? { ...group, side } : group);
+
+  if (Array.isArray(raw.all) || Array.isArray(raw.any)) {
+    const key = Array.isArray(raw.all) ? "all" : "any";
+    const children = (raw[key] as any[]).map(normaliseCondition).filter((child): child is Condition => child !== null);
+    if (!children.length) return null;
+    return withSide(key === "all" ? { all: children } : { any: children });
+  }
+  if ("not" in raw) {
+    const child = normaliseCondition(raw.not);
+    return child ? withSide({ not: child }) : null;
+  }
+  return normaliseRule(raw);
+}
+
 export function normaliseDsl(candidate: any): StrategyDSL {
   if (!candidate || typeof candidate !== "object") {
     throw new Error("Strategy DSL must be an object");
@@ -69,189 +543,445 @@ export function normaliseDsl(candidate: any): StrategyDSL {
   const name = typeof candidate.name === "string" && candidate.name.trim() ? candidate.name.trim() : "Custom Strategy";
   const rawRules = Array.isArray(candidate.rules) ? candidate.rules : [];
 
-  const rules: Rule[] = rawRules
-    .map((raw: any) => ({ type: raw?.type, params: raw?.params ?? {}, raw }))
-    .filter((entry: { type: unknown; params: any; raw: any }): entry is { type: Rule["type"]; params: any; raw: any } =>
-      ["macd_cross", "rsi_threshold", "sma_cross", "ema_cross"].includes(entry.type as string),
-    )
-    .map((entry: { type: Rule["type"]; params: any; raw: any }): Rule => {
-      switch (entry.type) {
-        case "macd_cross": {
-          const enterParam = entry.params.enter ?? entry.raw?.enter;
-          const exitParam = entry.params.exit ?? entry.raw?.exit;
-          const enter = enterParam === "bear" ? "bear" : enterParam === "bull" ? "bull" : undefined;
-          const exit = exitParam === "bear" ? "bear" : exitParam === "bull" ? "bull" : undefined;
-          return {
-            type: "macd_cross" as const,
-            params: {
-              fast: numberOr(entry.params.fast, 12),
-              slow: numberOr(entry.params.slow, 26),
-              signal: numberOr(entry.params.signal, 9),
-              enter,
-              exit,
-            },
-          } satisfies MacdRule;
-        }
-        case "rsi_threshold": {
-          const enterParam = entry.params.enter ?? entry.raw?.enter;
-          const exitParam = entry.params.exit ?? entry.raw?.exit;
-          const enter = enterParam === "short" ? "short" : enterParam === "long" ? "long" : undefined;
-          const exit = exitParam === "short" ? "short" : exitParam === "long" ? "long" : undefined;
-          return {
-            type: "rsi_threshold" as const,
-            params: {
-              period: numberOr(entry.params.period, 14),
-              low: Number.isFinite(normaliseNumber(entry.params.low)) ? Number(entry.params.low) : undefined,
-              high: Number.isFinite(normaliseNumber(entry.params.high)) ? Number(entry.params.high) : undefined,
-              enter,
-              exit,
-            },
-          } satisfies RsiRule;
-        }
-        case "sma_cross":
-        case "ema_cross": {
-          const enterParam = entry.params.enter ?? entry.raw?.enter;
-          const exitParam = entry.params.exit ?? entry.raw?.exit;
-          const mapDirection = (value: any): "fast_above" | "fast_below" | undefined => {
-            if (value === "fast_above" || value === "fast_below") return value;
-            if (value === "long") return "fast_above";
-            if (value === "short") return "fast_below";
-            return undefined;
-          };
-          return {
-            type: entry.type,
-            params: {
-              fast: numberOr(entry.params.fast, 10),
-              slow: numberOr(entry.params.slow, 20),
-              enter: mapDirection(enterParam),
-              exit: mapDirection(exitParam),
-            },
-          } satisfies CrossRule;
-        }
-        default:
-          throw new Error(`Unsupported rule type: ${String(entry.type)}`);
-      }
-    });
+  const rules: Rule[] = rawRules.map(normaliseRule).filter((rule: Rule | null): rule is Rule => rule !== null);
+  const entry = normaliseCondition(candidate.entry) ?? undefined;
+  const exit = normaliseCondition(candidate.exit) ?? undefined;
 
-  if (!rules.length) {
+  if (!rules.length && !entry) {
     throw new Error("Strategy contains no usable rules");
   }
 
-  return { name, rules };
+  const direction: Direction = ["long", "short", "both"].includes(candidate.direction)
+    ? candidate.direction
+    : inferDirection({ rules, entry });
+
+  const capital = numberOr(candidate.capital, DEFAULT_CAPITAL);
+  const costs = normaliseCosts(candidate.costs);
+  const risk = normaliseRisk(candidate.risk);
+  const sizing = normaliseSizing(candidate.sizing);
+  const scaling = normaliseScaling(candidate.scaling);
+  const holding = normaliseHolding(candidate.holding);
+  const filters = normaliseFilters(candidate.filters);
+  const fill: FillPolicy = FILL_POLICIES.includes(candidate.fill) ? candidate.fill : DEFAULT_FILL_POLICY;
+
+  return {
+    name,
+    direction,
+    capital: capital > 0 ? capital : DEFAULT_CAPITAL,
+    costs,
+    risk,
+    ...(sizing ? { sizing } : {}),
+    ...(scaling ? { scaling } : {}),
+    ...(holding ? { holding } : {}),
+    ...(filters.length ? { filters } : {}),
+    fill,
+    rules,
+    ...(entry ? { entry } : {}),
+    ...(exit ? { exit } : {}),
+  };
 }
 
-export function runBacktest(dsl: StrategyDSL, data: Mkt[]): BacktestResult {
-  const closes = data.map((d) => d.close);
-  const indicators: Record<string, number[]> = {};
-  const sigEnter: boolean[] = new Array(data.length).fill(false);
-  const sigExit: boolean[] = new Array(data.length).fill(false);
+export type BacktestOptions = {
+  /** Leading bars used only to warm up indicators; no position is opened before this index. */
+  warmupBars?: number;
+  /** Reference tickers' bars for regime filters, keyed by ticker. */
+  references?: ReferenceSeries;
+};
 
-  for (const rule of dsl.rules) {
-    switch (rule.type) {
-      case "macd_cross": {
-        const { fast, slow, signal, enter, exit } = rule.params;
-        const { macd, signal: sig } = MACD(closes, fast, slow, signal);
-        const crossUp = macd.map((value, i) => i > 0 && macd[i - 1] <= sig[i - 1] && value > sig[i]);
-        const crossDown = macd.map((value, i) => i > 0 && macd[i - 1] >= sig[i - 1] && value < sig[i]);
-
-        for (let i = 0; i < data.length; i++) {
-          const enterMode = enter ?? "bull";
-          if (enterMode === "bull") sigEnter[i] ||= crossUp[i];
-          if (enterMode === "bear") sigEnter[i] ||= crossDown[i];
-
-          const exitMode = exit ?? "bear";
-          if (exitMode === "bull") sigExit[i] ||= crossUp[i];
-          if (exitMode === "bear") sigExit[i] ||= crossDown[i];
-        }
-        break;
+type SignalContext = { rows: Mkt[]; closes: number[] };
+
+/**
+ * Raw entry and exit signals of a single rule, regardless of the side they act on. Without an `exit`
+ * a rule exits on the opposite of its entry, so a short-entering rule covers its shorts.
+ */
+function ruleSignals(rule: Rule, ctx: SignalContext): { enter: boolean[]; exit: boolean[] } {
+  const { rows, closes } = ctx;
+  if (rule.type === "compare") {
+    const holds = compareSignals(rule, rows);
+    return { enter: holds, exit: holds };
+  }
+  const enter: boolean[] = new Array(closes.length).fill(false);
+  const exit: boolean[] = new Array(closes.length).fill(false);
+  // Higher-timeframe series are forward-filled onto `rows` from the bar after their period completes.
+  const { bars, align } = timeframeView(rows, rule.timeframe);
+  const indicator = (name: string, params: Record<string, number>, output = "value") =>
+    align(computeIndicator(bars, name, params)[output]);
+
+  switch (rule.type) {
+    case "macd_cross": {
+      const { fast, slow, signal, enter: enterMode = "bull" } = rule.params;
+      const exitMode = rule.params.exit ?? (enterMode === "bear" ? "bull" : "bear");
+      const macd = indicator("macd", { fast, slow, signal }, "macd");
+      const sig = indicator("macd", { fast, slow, signal }, "signal");
+      const crossUp = macd.map((value, i) => i > 0 && macd[i - 1] <= sig[i - 1] && value > sig[i]);
+      const crossDown = macd.map((value, i) => i > 0 && macd[i - 1] >= sig[i - 1] && value < sig[i]);
+
+      for (let i = 0; i < closes.length; i++) {
+        if (enterMode === "bull") enter[i] ||= crossUp[i];
+        if (enterMode === "bear") enter[i] ||= crossDown[i];
+
+        if (exitMode === "bull") exit[i] ||= crossUp[i];
+        if (exitMode === "bear") exit[i] ||= crossDown[i];
       }
-      case "rsi_threshold": {
-        const { period, low, high, enter, exit } = rule.params;
-        const lo = low ?? 30;
-        const hi = high ?? 70;
-        const key = `rsi_${period}`;
-        const rsi = (indicators[key] ??= RSI(closes, period));
-
-        for (let i = 0; i < data.length; i++) {
-          const enterMode = enter ?? "long";
-          if (enterMode === "long") sigEnter[i] ||= rsi[i] <= lo;
-          if (enterMode === "short") sigEnter[i] ||= rsi[i] >= hi;
-
-          const exitMode = exit ?? "long";
-          if (exitMode === "long") sigExit[i] ||= rsi[i] >= hi;
-          if (exitMode === "short") sigExit[i] ||= rsi[i] <= lo;
-        }
-        break;
+      break;
+    }
+    case "rsi_threshold": {
+      const { period, low, high, enter: enterMode = "long" } = rule.params;
+      const exitMode = rule.params.exit ?? enterMode;
+      const lo = low ?? 30;
+      const hi = high ?? 70;
+      const rsi = indicator("rsi", { period });
+
+      for (let i = 0; i < closes.length; i++) {
+        if (enterMode === "long") enter[i] ||= rsi[i] <= lo;
+        if (enterMode === "short") enter[i] ||= rsi[i] >= hi;
+
+        if (exitMode === "long") exit[i] ||= rsi[i] >= hi;
+        if (exitMode === "short") exit[i] ||= rsi[i] <= lo;
       }
-      case "sma_cross":
-      case "ema_cross": {
-        const { fast, slow, enter, exit } = rule.params;
-        const fastKey = `${rule.type}_${fast}`;
-        const slowKey = `${rule.type}_${slow}`;
-        if (!indicators[fastKey]) {
-          indicators[fastKey] = rule.type === "sma_cross" ? SMA(closes, fast) : EMA(closes, fast);
-        }
-        if (!indicators[slowKey]) {
-          indicators[slowKey] = rule.type === "sma_cross" ? SMA(closes, slow) : EMA(closes, slow);
-        }
-        const fastSeries = indicators[fastKey];
-        const slowSeries = indicators[slowKey];
-
-        const crossUp = fastSeries.map(
-          (value, i) => i > 0 && fastSeries[i - 1] <= slowSeries[i - 1] && value > slowSeries[i],
-        );
-        const crossDown = fastSeries.map(
-          (value, i) => i > 0 && fastSeries[i - 1] >= slowSeries[i - 1] && value < slowSeries[i],
-        );
-
-        for (let i = 0; i < data.length; i++) {
-          const enterMode = enter ?? "fast_above";
-          if (enterMode === "fast_above") sigEnter[i] ||= crossUp[i];
-          if (enterMode === "fast_below") sigEnter[i] ||= crossDown[i];
-
-          const exitMode = exit ?? "fast_below";
-          if (exitMode === "fast_above") sigExit[i] ||= crossUp[i];
-          if (exitMode === "fast_below") sigExit[i] ||= crossDown[i];
-        }
-        break;
+      break;
+    }
+    case "sma_cross":
+    case "ema_cross": {
+      const { fast, slow, enter: enterMode = "fast_above" } = rule.params;
+      const exitMode = rule.params.exit ?? (enterMode === "fast_below" ? "fast_above" : "fast_below");
+      const average = rule.type === "sma_cross" ? "sma" : "ema";
+      const fastSeries = indicator(average, { period: fast });
+      const slowSeries = indicator(average, { period: slow });
+
+      const crossUp = fastSeries.map(
+        (value, i) => i > 0 && fastSeries[i - 1] <= slowSeries[i - 1] && value > slowSeries[i],
+      );
+      const crossDown = fastSeries.map(
+        (value, i) => i > 0 && fastSeries[i - 1] >= slowSeries[i - 1] && value < slowSeries[i],
+      );
+
+      for (let i = 0; i < closes.length; i++) {
+        if (enterMode === "fast_above") enter[i] ||= crossUp[i];
+        if (enterMode === "fast_below") enter[i] ||= crossDown[i];
+
+        if (exitMode === "fast_above") exit[i] ||= crossUp[i];
+        if (exitMode === "fast_below") exit[i] ||= crossDown[i];
       }
+      break;
     }
   }
 
-  const trades: BacktestResult["trades"] = [];
+  return { enter, exit };
+}
+
+function evaluateCondition(node: Condition, kind: "enter" | "exit", ctx: SignalContext): boolean[] {
+  if (isRule(node)) return ruleSignals(node, ctx)[kind];
+  if ("not" in node) return evaluateCondition(node.not, kind, ctx).map((value) => !value);
+  const children = ("all" in node ? node.all : node.any).map((child) => evaluateCondition(child, kind, ctx));
+  return ctx.closes.map((_, i) =>
+    "all" in node ? children.every((series) => series[i]) : children.some((series) => series[i]),
+  );
+}
+
+export type Signals = {
+  direction: Direction;
+  enter: Record<Side, boolean[]>;
+  exit: Record<Side, boolean[]>;
+};
+
+/** Per-bar entry and exit signals for each side, with stop-and-reverse entries already folded in for "both". */
+export function computeSignals(dsl: StrategyDSL, data: Mkt[], options: BacktestOptions = {}): Signals {
+  const closes = data.map((d) => d.close);
+  const ctx: SignalContext = { rows: data, closes };
+  const direction = dsl.direction ?? inferDirection(dsl);
+  const sigEnter: Record<Side, boolean[]> = {
+    long: new Array(data.length).fill(false),
+    short: new Array(data.length).fill(false),
+  };
+  const sigExit: Record<Side, boolean[]> = {
+    long: new Array(data.length).fill(false),
+    short: new Array(data.length).fill(false),
+  };
+
+  for (const rule of dsl.rules) {
+    const { enter, exit } = ruleSignals(rule, ctx);
+    const roles = ruleRoles(rule);
+    if (!dsl.entry && roles.enter) enter.forEach((value, i) => (sigEnter[entrySide(rule)][i] ||= value));
+    if (!dsl.exit && roles.exit) exit.forEach((value, i) => (sigExit[exitSide(rule)][i] ||= value));
+  }
+  if (dsl.entry) sigEnter[conditionSide(dsl.entry, "enter", direction)] = evaluateCondition(dsl.entry, "enter", ctx);
+  if (dsl.exit) sigExit[conditionSide(dsl.exit, "exit", direction)] = evaluateCondition(dsl.exit, "exit", ctx);
+
+  if (direction === "both") {
+    // Stop-and-reverse: a signal that closes one side is also an entry for the other.
+    for (let i = 0; i < data.length; i++) {
+      sigEnter.short[i] ||= sigExit.long[i];
+      sigEnter.long[i] ||= sigExit.short[i];
+    }
+  }
+
+  if (dsl.filters?.length) {
+    const allowed = entryFilterMask(dsl.filters, data, options.references);
+    for (let i = 0; i < data.length; i++) {
+      sigEnter.long[i] &&= allowed[i];
+      sigEnter.short[i] &&= allowed[i];
+    }
+  }
+
+  return { direction, enter: sigEnter, exit: sigExit };
+}
+
+export function runBacktest(dsl: StrategyDSL, data: Mkt[], options: BacktestOptions = {}): BacktestResult {
+  const closes = data.map((d) => d.close);
+  const { direction, enter: sigEnter, exit: sigExit } = computeSignals(dsl, data, options);
+  const allowLong = direction !== "short";
+  const allowShort = direction !== "long";
+
+  const capital = dsl.capital ?? DEFAULT_CAPITAL;
+  const fixedFee = dsl.costs?.commission ?? 0;
+  const feeRate = (dsl.costs?.commissionBps ?? 0) / 10_000;
+  const slippage = dsl.costs?.slippage;
+  const risk = dsl.risk;
+  const sizing = dsl.sizing;
+  const warmupBars = options.warmupBars ?? 0;
+  const atr = risk?.atrStop ? computeIndicator(data, "atr", { period: risk.atrStop.period }).value : [];
+  const volatility = sizing?.type === "volatility" ? volatilitySeries(data, sizing) : [];
+
+  const fill = dsl.fill ?? DEFAULT_FILL_POLICY;
+  const nextBar = fill !== "same_close";
+  // A position filled at the open is exposed to the rest of that bar; otherwise risk checks start on the next bar.
+  const riskDelay = fill === "next_open" ? 0 : 1;
+  const maxUnits = dsl.scaling?.maxUnits ?? 1;
+  const exitFractions = dsl.scaling?.exitFractions ?? [];
+  const { maxBars = 0, minBars = 0, cooldownBars = 0 } = dsl.holding ?? {};
+  // Orders decided on a close fill one bar later under the next-bar policies.
+  const fillDelay = nextBar ? 1 : 0;
+
+  const trades: Trade[] = [];
   const equity: number[] = new Array(data.length).fill(1);
-  let holding = false;
-  let entryIdx = -1;
-  let lastEquity = 1;
+  const cashSeries: number[] = new Array(data.length).fill(capital);
+  const shares: number[] = new Array(data.length).fill(0);
+  const exposure: number[] = new Array(data.length).fill(0);
+  let position: OpenPosition | null = null;
+  let cash = capital;
+  let lastGross = 1;
+  let barsInMarket = 0;
+  /** Orders decided on the previous bar's close, for the next-bar fill policies. */
+  let pending: { exit?: ExitReason; enter?: Side } = {};
+  let lastExitIdx = -Infinity;
+
+  const valueAt = (price: number) =>
+    position ? cash + (position.side === "long" ? 1 : -1) * position.quantity * price : cash;
 
   for (let i = 0; i < data.length; i++) {
-    if (!holding && sigEnter[i]) {
-      holding = true;
-      entryIdx = i;
-    } else if (holding && sigExit[i] && i > entryIdx) {
-      const entry = data[entryIdx].close;
-      const exit = data[i].close;
-      const pnl = (exit - entry) / entry;
-      lastEquity *= 1 + pnl;
-      trades.push({ entryIdx, exitIdx: i, entryPrice: entry, exitPrice: exit, pnl });
-      holding = false;
+    const bar = data[i];
+    const orders = pending;
+    pending = {};
+    let exited = false;
+
+    /** Closes `quantity` shares of the position, oldest lots first, as one fill. */
+    const reduce = (open: OpenPosition, quantity: number, price: number, reason: ExitReason) => {
+      const { side } = open;
+      const exitPrice = slippedPrice(bar, side === "short", slippage, price);
+      const fillValue = quantity * exitPrice;
+      const fillFee = fillValue * feeRate + fixedFee;
+      cash += side === "long" ? fillValue - fillFee : -fillValue - fillFee;
+
+      let remaining = quantity;
+      while (remaining > 1e-9 && open.lots.length) {
+        const lot = open.lots[0];
+        const taken = Math.min(lot.quantity, remaining);
+        const share = taken / lot.quantity;
+        const entryFee = lot.entryFee * share;
+        const committed = lot.committed * share;
+        const exitFee = (fillFee * taken) / quantity;
+        const lotGross = tradeReturn(side, lot.entryBase, price);
+        lastGross *= 1 + lot.weight * share * lotGross;
+        trades.push({
+          side,
+          entryIdx: lot.entryIdx,
+          exitIdx: i,
+          unit: lot.unit,
+          avgCost: open.entryPrice,
+          quantity: taken,
+          notional: taken * lot.entryPrice,
+          entryPrice: lot.entryPrice,
+          exitPrice,
+          pnl: (tradeReturn(side, lot.entryPrice, exitPrice) * taken * lot.entryPrice - entryFee - exitFee) / committed,
+          weight: lot.weight * share,
+          grossPnl: lotGross,
+          exitReason: reason,
+        });
+        lot.quantity -= taken;
+        lot.entryFee -= entryFee;
+        lot.committed -= committed;
+        lot.weight -= lot.weight * share;
+        remaining -= taken;
+        if (lot.quantity <= 1e-9) open.lots.shift();
+      }
+
+      open.quantity = open.lots.reduce((total, lot) => total + lot.quantity, 0);
+      if (!open.lots.length) {
+        position = null;
+        exited = true;
+        lastExitIdx = i;
+      }
+    };
+
+    const closePosition = (open: OpenPosition, price: number, reason: ExitReason) => reduce(open, open.quantity, price, reason);
+
+    /** A signal exit: the next scale-out fraction of the position, or all of it once they run out. */
+    const exitOnSignal = (open: OpenPosition, price: number, reason: ExitReason) => {
+      const fraction = reason === "signal" ? exitFractions[open.exitsTaken] ?? 1 : 1;
+      open.exitsTaken++;
+      reduce(open, fraction >= 1 ? open.quantity : open.quantity * fraction, price, reason);
+    };
+
+    // Fees are charged on the capital committed, so committing C buys a notional of C * (1 - feeRate) - fixedFee.
+    const openPosition = (side: Side, price: number) => {
+      const held = position as OpenPosition | null;
+      if (held && (held.side !== side || held.lots.length >= maxUnits)) return;
+      const entryPrice = slippedPrice(bar, side === "long", slippage, price);
+      const equityNow = valueAt(price);
+      const signalIdx = nextBar ? i - 1 : i;
+      const target = positionBudget(sizing, {
+        equity: equityNow,
+        price: entryPrice,
+        volatility: volatility[signalIdx],
+        closedPnls: trades.map((t) => t.pnl),
+      });
+      // Longs are limited by cash, shorts by equity not already sold short; neither uses leverage.
+      const available = side === "long" ? cash : equityNow - (held ? held.quantity * price : 0);
+      const notional = Math.min(target, available * (1 - feeRate) - fixedFee);
+      if (!(notional > 0)) return;
+      const committed = (notional + fixedFee) / (1 - feeRate);
+      const entryFee = committed - notional;
+      cash += side === "long" ? -notional - entryFee : notional - entryFee;
+
+      const open: OpenPosition = held ?? {
+        side,
+        entryIdx: i,
+        lots: [],
+        entryPrice,
+        quantity: 0,
+        units: 0,
+        exitsTaken: 0,
+        extreme: price,
+      };
+      open.units++;
+      open.lots.push({
+        unit: open.units,
+        entryIdx: i,
+        entryBase: price,
+        entryPrice,
+        quantity: notional / entryPrice,
+        entryFee,
+        committed,
+        weight: committed / equityNow,
+      });
+      open.quantity = open.lots.reduce((total, lot) => total + lot.quantity, 0);
+      open.entryPrice = open.lots.reduce((total, lot) => total + lot.quantity * lot.entryPrice, 0) / open.quantity;
+      position = open;
+    };
+
+    // Orders placed at the previous close fill at the open, before anything else happens on this bar.
+    if (fill === "next_open") {
+      if (position && orders.exit) exitOnSignal(position, bar.open, orders.exit);
+      if (orders.enter) openPosition(orders.enter, bar.open);
+    }
+
+    const held = position as OpenPosition | null;
+    if (held && i >= held.entryIdx + riskDelay) {
+      // The ATR known when the entry was signalled; the fill bar's own range is not known at the open.
+      const riskExit = risk ? checkRiskExit(held, bar, risk, atr[held.entryIdx - fillDelay]) : null;
+      if (riskExit) {
+        closePosition(held, riskExit.price, riskExit.reason);
+      } else {
+        held.extreme = held.side === "long" ? Math.max(held.extreme, bar.high) : Math.min(held.extreme, bar.low);
+      }
+    }
+
+    if (fill === "next_vwap" || fill === "next_close") {
+      const price = fillPrice(bar, fill);
+      if (position && orders.exit) exitOnSignal(position, price, orders.exit);
+      if (orders.enter) openPosition(orders.enter, price);
     }
-    equity[i] = lastEquity * (holding && entryIdx >= 0 ? data[i].close / data[entryIdx].close : 1);
+
+    // Signals on this bar's close: act now under "same_close", otherwise queue orders for the next bar.
+    const current = position as OpenPosition | null;
+    const lastEntry = current ? current.lots[current.lots.length - 1].entryIdx : -1;
+    if (current && (nextBar || i > lastEntry)) {
+      const opposite: Side = current.side === "long" ? "short" : "long";
+      const barsHeld = i + fillDelay - current.entryIdx;
+      const canExit = barsHeld >= minBars;
+      const flip = direction === "both" && sigEnter[opposite][i] && canExit;
+      // A cooldown rules out re-entering on the exit bar, so a reversal becomes a plain exit.
+      const reverse = flip && cooldownBars === 0;
+      const reason: ExitReason | null =
+        maxBars && barsHeld >= maxBars
+          ? "time_exit"
+          : reverse
+            ? "reverse"
+            : flip || (canExit && sigExit[current.side][i])
+              ? "signal"
+              : null;
+      const addUnit = !reason && sigEnter[current.side][i] && current.lots.length < maxUnits && i >= warmupBars;
+      if (reason && nextBar) {
+        pending = { exit: reason, ...(reverse ? { enter: opposite } : {}) };
+      } else if (reason === "reverse") {
+        closePosition(current, bar.close, reason);
+        openPosition(opposite, bar.close);
+      } else if (reason) {
+        exitOnSignal(current, bar.close, reason);
+      } else if (addUnit && nextBar) {
+        pending = { enter: current.side };
+      } else if (addUnit) {
+        openPosition(current.side, bar.close);
+      }
+    } else if (!current && (nextBar || !exited) && i >= warmupBars && i + fillDelay - lastExitIdx > cooldownBars) {
+      const goLong = allowLong && sigEnter.long[i];
+      const goShort = allowShort && sigEnter.short[i];
+      // Conflicting long and short entries on the same bar are ambiguous; stay flat.
+      if (goLong !== goShort) {
+        const side: Side = goLong ? "long" : "short";
+        if (nextBar) pending = { enter: side };
+        else openPosition(side, bar.close);
+      }
+    }
+
+    const open = position as OpenPosition | null;
+    const value = valueAt(bar.close);
+    if (open) barsInMarket++;
+    equity[i] = value / capital;
+    cashSeries[i] = cash;
+    shares[i] = open ? (open.side === "long" ? open.quantity : -open.quantity) : 0;
+    exposure[i] = open && value > 0 ? (open.quantity * bar.close) / value : 0;
   }
 
+  const last = position as OpenPosition | null;
+  const closeAtEnd = data.at(-1)?.close ?? 0;
+  const grossFinal = last
+    ? last.lots.reduce((gross, lot) => gross * (1 + lot.weight * tradeReturn(last.side, lot.entryBase, closeAtEnd)), lastGross)
+    : lastGross;
   const returns = trades.map((t) => t.pnl);
   const totalReturnPct = (equity.at(-1)! - 1) * 100;
+  const grossReturnPct = (grossFinal - 1) * 100;
   const winRatePct = returns.length ? (100 * returns.filter((x) => x > 0).length) / returns.length : 0;
   const avgTradePct = returns.length ? (100 * returns.reduce((a, b) => a + b, 0)) / returns.length : 0;
 
   return {
     name: dsl.name,
+    fill,
     trades,
     equity,
-    stats: { totalReturnPct, trades: trades.length, winRatePct, avgTradePct },
+    cash: cashSeries,
+    shares,
+    exposure,
+    stats: {
+      totalReturnPct,
+      grossReturnPct,
+      netReturnPct: totalReturnPct,
+      trades: trades.length,
+      winRatePct,
+      avgTradePct,
+      avgExposurePct: exposure.length ? (100 * exposure.reduce((a, b) => a + b, 0)) / exposure.length : 0,
+      ...computePerformance({ equity, dates: data.map((d) => d.date), trades, barsInMarket }),
+    },
   };
 }
-
-
-
-
@@ -0,0 +1,419 @@
+// lib/streaming-indicators.ts
+import type { Row } from "../types/row";
+
+/*
+ * Incremental versions of lib/indicators.ts: push one value or bar at a time and read `value`, which
+ * is what the batch function returns at that index. Each class repeats its batch function's arithmetic
+ * in the same order, so the results are identical, not just close.
+ */
+
+type HLC = Pick<Row, "high" | "low" | "close">;
+
+/** The last `size` values pushed, oldest first. */
+class Window {
+  readonly values: number[] = [];
+
+  constructor(readonly size: number) {}
+
+  push(value: number): void {
+    this.values.push(value);
+    if (this.values.length > this.size) this.values.shift();
+  }
+
+  get full(): boolean {
+    return this.values.length >= this.size;
+  }
+
+  get oldest(): number {
+    return this.values[0];
+  }
+
+  sum(): number {
+    return this.values.reduce((a, b) => a + b, 0);
+  }
+}
+
+/** Feeds `inner` from the first finite value on, like `afterWarmup` in lib/indicators.ts. */
+class AfterWarmup {
+  private started = false;
+
+  constructor(private readonly inner: { push(value: number): number }) {}
+
+  push(value: number): number {
+    if (!this.started && !Number.isFinite(value)) return NaN;
+    this.started = true;
+    return this.inner.push(value);
+  }
+}
+
+export class StreamingSMA {
+  value = NaN;
+  private count = 0;
+  private sum = 0;
+  private readonly previous: Window;
+
+  constructor(readonly period: number) {
+    this.previous = new Window(period);
+  }
+
+  push(v: number): number {
+    this.sum += v;
+    if (this.previous.full) this.sum -= this.previous.oldest;
+    this.previous.push(v);
+    this.count++;
+    this.value = this.count >= this.period ? this.sum / this.period : NaN;
+    return this.value;
+  }
+}
+
+export class StreamingEMA {
+  value = NaN;
+  private count = 0;
+  private ema = 0;
+  private readonly k: number;
+
+  constructor(readonly period: number) {
+    this.k = 2 / (period + 1);
+  }
+
+  push(v: number): number {
+    this.ema = this.count === 0 ? v : v * this.k + this.ema * (1 - this.k);
+    this.count++;
+    this.value = this.count >= this.period ? this.ema : NaN;
+    return this.value;
+  }
+}
+
+export class StreamingMACD {
+  value = { macd: NaN, signal: NaN, hist: NaN };
+  private readonly fast: StreamingEMA;
+  private readonly slow: StreamingEMA;
+  private readonly signal: StreamingEMA;
+
+  constructor(fast = 12, slow = 26, signal = 9) {
+    this.fast = new StreamingEMA(fast);
+    this.slow = new StreamingEMA(slow);
+    this.signal = new StreamingEMA(signal);
+  }
+
+  push(v: number) {
+    const macd = this.fast.push(v) - this.slow.push(v);
+    const signal = this.signal.push(isFinite(macd) ? macd : 0);
+    this.value = { macd, signal, hist: macd - signal };
+    return this.value;
+  }
+}
+
+export class StreamingRSI {
+  value = NaN;
+  private count = 0;
+  private previous = NaN;
+  private gain = 0;
+  private loss = 0;
+
+  constructor(readonly period = 14) {}
+
+  push(v: number): number {
+    const { period } = this;
+    this.value = NaN;
+    if (this.count > 0) {
+      const ch = v - this.previous;
+      const g = Math.max(ch, 0), l = Math.max(-ch, 0);
+      if (this.count <= period) {
+        this.gain += g;
+        this.loss += l;
+      } else {
+        this.gain = (this.gain * (period - 1) + g) / period;
+        this.loss = (this.loss * (period - 1) + l) / period;
+        this.value = this.loss === 0 ? 100 : 100 * (1 - 1 / (1 + this.gain / this.loss));
+      }
+    }
+    this.previous = v;
+    this.count++;
+    return this.value;
+  }
+}
+
+export class StreamingATR {
+  value = NaN;
+  private count = 0;
+  private atr = 0;
+  private previousClose = NaN;
+
+  constructor(readonly period = 14) {}
+
+  push(bar: HLC): number {
+    const { period } = this;
+    const i = this.count++;
+    const tr = i === 0
+      ? bar.high - bar.low
+      : Math.max(bar.high - bar.low, Math.abs(bar.high - this.previousClose), Math.abs(bar.low - this.previousClose));
+    this.previousClose = bar.close;
+    if (i < period) {
+      this.atr += tr;
+      if (i === period - 1) this.atr /= period;
+      this.value = i === period - 1 ? this.atr : NaN;
+    } else {
+      this.atr = (this.atr * (period - 1) + tr) / period;
+      this.value = this.atr;
+    }
+    return this.value;
+  }
+}
+
+/** Rolling sample standard deviation over `period` values. */
+export class StreamingStdDev {
+  value = NaN;
+  private readonly window: Window;
+
+  constructor(readonly period = 20) {
+    this.window = new Window(period);
+  }
+
+  push(v: number): number {
+    this.window.push(v);
+    if (!this.window.full) return (this.value = NaN);
+    const mean = this.window.sum() / this.period;
+    this.value = Math.sqrt(this.window.values.reduce((acc, x) => acc + (x - mean) ** 2, 0) / (this.period - 1));
+    return this.value;
+  }
+}
+
+export class StreamingBollingerBands {
+  value = { middle: NaN, upper: NaN, lower: NaN };
+  private readonly sma: StreamingSMA;
+  private readonly window: Window;
+
+  constructor(readonly period = 20, readonly multiple = 2) {
+    this.sma = new StreamingSMA(period);
+    this.window = new Window(period);
+  }
+
+  push(v: number) {
+    const middle = this.sma.push(v);
+    this.window.push(v);
+    let sd = NaN;
+    if (this.window.full) {
+      const mean = this.window.sum() / this.period;
+      sd = Math.sqrt(this.window.values.reduce((acc, x) => acc + (x - mean) ** 2, 0) / this.period);
+    }
+    this.value = { middle, upper: middle + this.multiple * sd, lower: middle - this.multiple * sd };
+    return this.value;
+  }
+}
+
+/** Highest and lowest of the last `period` values; NaN until the window is full. */
+class Extremes {
+  private readonly highs: Window;
+  private readonly lows: Window;
+
+  constructor(period: number) {
+    this.highs = new Window(period);
+    this.lows = new Window(period);
+  }
+
+  push(high: number, low: number): { highest: number; lowest: number } {
+    this.highs.push(high);
+    this.lows.push(low);
+    return this.highs.full
+      ? { highest: Math.max(...this.highs.values), lowest: Math.min(...this.lows.values) }
+      : { highest: NaN, lowest: NaN };
+  }
+}
+
+export class StreamingStochastic {
+  value = { k: NaN, d: NaN };
+  private count = 0;
+  private readonly extremes: Extremes;
+  private readonly smooth: AfterWarmup | null;
+  private readonly d: AfterWarmup;
+
+  constructor(readonly kPeriod = 14, dPeriod = 3, smooth = 1) {
+    this.extremes = new Extremes(kPeriod);
+    this.smooth = smooth > 1 ? new AfterWarmup(new StreamingSMA(smooth)) : null;
+    this.d = new AfterWarmup(new StreamingSMA(dPeriod));
+  }
+
+  push(bar: HLC) {
+    const i = this.count++;
+    const { highest: hh, lowest: ll } = this.extremes.push(bar.high, bar.low);
+    const raw = hh > ll ? (100 * (bar.close - ll)) / (hh - ll) : i >= this.kPeriod - 1 ? 50 : NaN;
+    const k = this.smooth ? this.smooth.push(raw) : raw;
+    this.value = { k, d: this.d.push(k) };
+    return this.value;
+  }
+}
+
+export class StreamingADX {
+  value = { adx: NaN, plusDI: NaN, minusDI: NaN };
+  private count = 0;
+  private previous: HLC | null = null;
+  private tr = 0;
+  private plus = 0;
+  private minus = 0;
+  private dxSum = 0;
+  private smoothed = NaN;
+
+  constructor(readonly period = 14) {}
+
+  push(bar: HLC) {
+    const { period } = this;
+    const i = this.count++;
+    const previous = this.previous;
+    this.previous = bar;
+    this.value = { adx: NaN, plusDI: NaN, minusDI: NaN };
+    if (!previous) return this.value;
+
+    const up = bar.high - previous.high;
+    const down = previous.low - bar.low;
+    const t = Math.max(bar.high - bar.low, Math.abs(bar.high - previous.close), Math.abs(bar.low - previous.close));
+    const p = up > down && up > 0 ? up : 0;
+    const m = down > up && down > 0 ? down : 0;
+    if (i <= period) {
+      this.tr += t;
+      this.plus += p;
+      this.minus += m;
+    } else {
+      this.tr = this.tr - this.tr / period + t;
+      this.plus = this.plus - this.plus / period + p;
+      this.minus = this.minus - this.minus / period + m;
+    }
+    if (i < period) return this.value;
+
+    const plusDI = this.tr > 0 ? (100 * this.plus) / this.tr : 0;
+    const minusDI = this.tr > 0 ? (100 * this.minus) / this.tr : 0;
+    const total = plusDI + minusDI;
+    const dx = total > 0 ? (100 * Math.abs(plusDI - minusDI)) / total : 0;
+    this.value = { adx: NaN, plusDI, minusDI };
+    if (i < 2 * period - 1) {
+      this.dxSum += dx;
+      return this.value;
+    }
+    this.smoothed = i === 2 * period - 1 ? (this.dxSum + dx) / period : (this.smoothed * (period - 1) + dx) / period;
+    this.value.adx = this.smoothed;
+    return this.value;
+  }
+}
+
+export class StreamingCCI {
+  value = NaN;
+  private readonly window: Window;
+
+  constructor(readonly period = 20) {
+    this.window = new Window(period);
+  }
+
+  push(bar: HLC): number {
+    const { period, window } = this;
+    window.push((bar.high + bar.low + bar.close) / 3);
+    if (!window.full) return (this.value = NaN);
+    const mean = window.sum() / period;
+    const deviation = window.values.reduce((acc, v) => acc + Math.abs(v - mean), 0) / period;
+    this.value = deviation > 0 ? (window.values[period - 1] - mean) / (0.015 * deviation) : 0;
+    return this.value;
+  }
+}
+
+export class StreamingWilliamsR {
+  value = NaN;
+  private count = 0;
+  private readonly extremes: Extremes;
+
+  constructor(readonly period = 14) {
+    this.extremes = new Extremes(period);
+  }
+
+  push(bar: HLC): number {
+    const i = this.count++;
+    const { highest: hh, lowest: ll } = this.extremes.push(bar.high, bar.low);
+    this.value = hh > ll ? (-100 * (hh - bar.close)) / (hh - ll) : i >= this.period - 1 ? -50 : NaN;
+    return this.value;
+  }
+}
+
+export class StreamingOBV {
+  value = NaN;
+  private previousClose = NaN;
+  private obv = 0;
+  private count = 0;
+
+  push(bar: Pick<Row, "close" | "volume">): number {
+    if (this.count++ > 0) {
+      this.obv += bar.close > this.previousClose ? bar.volume : bar.close < this.previousClose ? -bar.volume : 0;
+    }
+    this.previousClose = bar.close;
+    this.value = this.obv;
+    return this.value;
+  }
+}
+
+export class StreamingRollingVWAP {
+  value = NaN;
+  private readonly prices: Window;
+  private readonly volumes: Window;
+
+  constructor(readonly period = 20) {
+    this.prices = new Window(period);
+    this.volumes = new Window(period);
+  }
+
+  push(bar: Pick<Row, "high" | "low" | "close" | "volume">): number {
+    this.prices.push((bar.high + bar.low + bar.close) / 3);
+    this.volumes.push(bar.volume);
+    if (!this.prices.full) return (this.value = NaN);
+    let pv = 0, v = 0;
+    for (let j = 0; j < this.period; j++) { pv += this.prices.values[j] * this.volumes.values[j]; v += this.volumes.values[j]; }
+    this.value = v > 0 ? pv / v : NaN;
+    return this.value;
+  }
+}
+
+export class StreamingDonchian {
+  value = { upper: NaN, middle: NaN, lower: NaN };
+  private readonly extremes: Extremes;
+
+  constructor(readonly period = 20) {
+    this.extremes = new Extremes(period);
+  }
+
+  push(bar: Pick<Row, "high" | "low">) {
+    const { highest: upper, lowest: lower } = this.extremes.push(bar.high, bar.low);
+    this.value = { upper, middle: (upper + lower) / 2, lower };
+    return this.value;
+  }
+}
+
+export class StreamingKeltner {
+  value = { upper: NaN, middle: NaN, lower: NaN };
+  private readonly ema: StreamingEMA;
+  private readonly atr: StreamingATR;
+
+  constructor(period = 20, readonly multiple = 2, atrPeriod = 10) {
+    this.ema = new StreamingEMA(period);
+    this.atr = new StreamingATR(atrPeriod);
+  }
+
+  push(bar: HLC) {
+    const middle = this.ema.push(bar.close);
+    const atr = this.atr.push(bar);
+    this.value = { upper: middle + this.multiple * atr, middle, lower: middle - this.multiple * atr };
+    return this.value;
+  }
+}
+
+/** Rate of change in percent over `period` bars. */
+export class StreamingROC {
+  value = NaN;
+  private readonly previous: Window;
+
+  constructor(readonly period = 12) {
+    this.previous = new Window(period);
+  }
+
+  push(v: number): number {
+    const old = this.previous.full ? this.previous.oldest : NaN;
+    this.value = this.previous.full ? (100 * (v - old)) / old : NaN;
+    this.previous.push(v);
+    return this.value;
+  }
+}
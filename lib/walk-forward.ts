@@ -0,0 +1,149 @@
+// lib/walk-forward.ts
+import type { Row } from "../types/row";
+import type { ReferenceSeries } from "./filters";
+import { computePerformance, type PerformanceStats } from "./metrics";
+import { runParameterSweep, type Objective } from "./optimizer";
+import { runBacktest, type BacktestStats, type Trade } from "./strategy-engine";
+
+export type WalkForwardOptions = {
+  /** "rolling" slides a fixed-length train window; "anchored" always trains from the first bar. */
+  mode?: "rolling" | "anchored";
+  trainBars: number;
+  /** Length of each out-of-sample window; windows advance by this much so test windows tile the data. */
+  testBars: number;
+  objective?: Objective;
+  maxCombinations?: number;
+  /** Reference series for regime filters; matched by date, so they need not be sliced per window. */
+  references?: ReferenceSeries;
+};
+
+export type WalkForwardWindow = {
+  index: number;
+  trainStart: string;
+  trainEnd: string;
+  testStart: string;
+  testEnd: string;
+  params: Record<string, number>;
+  inSample: { score: number | null; stats: BacktestStats };
+  outOfSample: BacktestStats;
+};
+
+export type WalkForwardResult = {
+  mode: "rolling" | "anchored";
+  objective: Objective;
+  windows: WalkForwardWindow[];
+  /** Out-of-sample dates and equity, with each window's curve chained onto the previous one. */
+  dates: string[];
+  equity: number[];
+  /** Out-of-sample trades, indexed into `dates`. */
+  trades: Trade[];
+  stats: { totalReturnPct: number; trades: number; winRatePct: number; avgTradePct: number } & PerformanceStats;
+};
+
+/** Window lengths are whole bars; fractions would slice the bars at non-integer indices. */
+export function isBarCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+export function walkForwardWindows(
+  length: number,
+  { mode = "rolling", trainBars, testBars }: WalkForwardOptions,
+): { trainStart: number; testStart: number; testEnd: number }[] {
+  if (!isBarCount(trainBars) || !isBarCount(testBars)) {
+    throw new Error("trainBars and testBars must be positive integers");
+  }
+  const windows: { trainStart: number; testStart: number; testEnd: number }[] = [];
+  for (let testStart = trainBars; testStart < length; testStart += testBars) {
+    windows.push({
+      trainStart: mode === "anchored" ? 0 : testStart - trainBars,
+      testStart,
+      testEnd: Math.min(testStart + testBars, length),
+    });
+  }
+  return windows;
+}
+
+/**
+ * Optimises `rawDsl` (a DSL with parameter ranges, see lib/optimizer.ts) on each train window and
+ * runs the winning parameters on the following test window. The train bars are passed along as
+ * indicator warmup so the test run starts with fully formed indicators; positions still open at
+ * the end of a test window are marked to market and not carried into the next one.
+ */
+export function runWalkForward(rawDsl: any, rows: Row[], options: WalkForwardOptions): WalkForwardResult {
+  const mode = options.mode ?? "rolling";
+  const objective = options.objective ?? "sharpe";
+  const windows: WalkForwardWindow[] = [];
+  const dates: string[] = [];
+  const equity: number[] = [];
+  const trades: Trade[] = [];
+  let chained = 1;
+  let barsInMarket = 0;
+
+  walkForwardWindows(rows.length, options).forEach(({ trainStart, testStart, testEnd }, index) => {
+    const train = rows.slice(trainStart, testStart);
+    const sweep = runParameterSweep(rawDsl, train, {
+      objective,
+      maxCombinations: options.maxCombinations,
+      top: 1,
+      references: options.references,
+    });
+    const best = sweep.results[0];
+
+    const warmup = rows.slice(trainStart, testEnd);
+    const warmupBars = testStart - trainStart;
+    const test = runBacktest(best.dsl, warmup, { warmupBars, references: options.references });
+
+    const testDates = warmup.slice(warmupBars).map((row) => row.date);
+    const testEquity = test.equity.slice(warmupBars);
+    const testTrades = test.trades.map((trade) => ({
+      ...trade,
+      entryIdx: trade.entryIdx - warmupBars,
+      exitIdx: trade.exitIdx - warmupBars,
+    }));
+    // Exposure is measured over the whole run, and nothing is held during the warmup bars.
+    const windowBarsInMarket = Math.round((test.stats.exposurePct * warmup.length) / 100);
+
+    testTrades.forEach((trade) =>
+      trades.push({ ...trade, entryIdx: trade.entryIdx + dates.length, exitIdx: trade.exitIdx + dates.length }),
+    );
+    dates.push(...testDates);
+    equity.push(...testEquity.map((value) => chained * value));
+    chained = equity[equity.length - 1];
+    barsInMarket += windowBarsInMarket;
+
+    // Return and trade stats of the run are already out-of-sample; risk metrics must exclude the warmup.
+    const testExposure = test.exposure.slice(warmupBars);
+    const outOfSample: BacktestStats = {
+      ...test.stats,
+      avgExposurePct: testExposure.length ? (100 * testExposure.reduce((a, b) => a + b, 0)) / testExposure.length : 0,
+      ...computePerformance({ equity: testEquity, dates: testDates, trades: testTrades, barsInMarket: windowBarsInMarket }),
+    };
+    windows.push({
+      index,
+      trainStart: rows[trainStart].date,
+      trainEnd: rows[testStart - 1].date,
+      testStart: rows[testStart].date,
+      testEnd: rows[testEnd - 1].date,
+      params: best.params,
+      inSample: { score: best.score, stats: best.stats },
+      outOfSample,
+    });
+  });
+
+  const returns = trades.map((t) => t.pnl);
+  return {
+    mode,
+    objective,
+    windows,
+    dates,
+    equity,
+    trades,
+    stats: {
+      totalReturnPct: ((equity.at(-1) ?? 1) - 1) * 100,
+      trades: trades.length,
+      winRatePct: returns.length ? (100 * returns.filter((x) => x > 0).length) / returns.length : 0,
+      avgTradePct: returns.length ? (100 * returns.reduce((a, b) => a + b, 0)) / returns.length : 0,
+      ...computePerformance({ equity, dates, trades, barsInMarket }),
+    },
+  };
+}
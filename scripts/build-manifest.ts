@@ -133,7 +133,8 @@ async function main() {
       const key = obj.Key ?? "";
       const match = key.match(/\/([A-Za-z0-9._-]+)\.(parquet|json|csv)$/i);
 
-      if (match) {
+      // <TICKER>.actions.json holds corporate actions, not bars.
+      if (match && !/\.actions\.json$/i.test(key)) {
         const ticker = match[1].toUpperCase();
         const format = match[2].toLowerCase() as "parquet" | "json" | "csv";
         const fileSize = obj.Size || 0;
@@ -72,13 +72,22 @@ async function getTickersFromManifest(manifestPath) {
   }
 }
 
+const ACTIONS_SUFFIX = '.actions.json';
+
 function extractTickerFromFilename(filename) {
+  // Corporate actions files are named <TICKER>.actions.json
+  if (filename.toLowerCase().endsWith(ACTIONS_SUFFIX)) {
+    return filename.slice(0, -ACTIONS_SUFFIX.length).toUpperCase();
+  }
   // Remove extension and extract ticker
   const nameWithoutExt = basename(filename, extname(filename));
   return nameWithoutExt.toUpperCase();
 }
 
 function generateOutputFilename(ticker, inputFile, format) {
+  if (inputFile.toLowerCase().endsWith(ACTIONS_SUFFIX)) {
+    return `${ticker}${ACTIONS_SUFFIX}`;
+  }
   // Preserve the original file extension
   const ext = extname(inputFile);
   return `${ticker}${ext}`;
@@ -57,6 +57,7 @@ Options:
   --limit-per-ticker=N        Optional cap on bars per ticker for testing
   --out=./path                Output directory (default: ./data/parquet-final)
   --concurrency=2             Max concurrent requests (default: 2)
+  --actions=false             Skip writing <TICKER>.actions.json (dividends and splits)
   --help                      Show this help message
 
 Environment:
@@ -377,6 +378,28 @@ async function fetchPolygonBarsWithRetry(apiKey, ticker, startDate, endDate, opt
   }
 }
 
+// Fetch dividends and splits; barsAdjusted records whether the bars they go with are split-adjusted
+async function fetchCorporateActions(apiKey, ticker, barsAdjusted) {
+  const get = async (endpoint) => {
+    const response = await fetch(`https://api.polygon.io${endpoint}?ticker=${ticker}&limit=1000&apikey=${apiKey}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return data.results || [];
+  };
+
+  const dividends = await get('/v3/reference/dividends');
+  const splits = await get('/v3/reference/splits');
+  return {
+    ticker,
+    barsAdjusted,
+    dividends: dividends.map(d => ({ exDate: d.ex_dividend_date, amount: Number(d.cash_amount), payDate: d.pay_date })),
+    splits: splits.map(s => ({ date: s.execution_date, from: Number(s.split_from), to: Number(s.split_to) })),
+    updatedAt: new Date().toISOString()
+  };
+}
+
 // Process single ticker with resume support and mode selection
 async function processTicker(apiKey, ticker, startDate, endDate, outputDir, options = {}) {
   const { mode = 'auto' } = options;
@@ -448,6 +471,16 @@ async function processTicker(apiKey, ticker, startDate, endDate, outputDir, opti
       await fs.ensureDir(outputDir);
       await fs.writeJson(filePath, allBars, { spaces: 2 });
 
+      // Flat files are unadjusted while REST bars are fetched with adjusted=true
+      if (options.actions !== false && newBars.length > 0) {
+        try {
+          const actions = await fetchCorporateActions(apiKey, ticker, method !== 'flat');
+          await fs.writeJson(join(outputDir, `${ticker}.actions.json`), actions, { spaces: 2 });
+        } catch (error) {
+          console.log(`  ${ticker}: corporate actions not saved (${error.message})`);
+        }
+      }
+
       const firstDate = allBars[0].date;
       const lastDate = allBars[allBars.length - 1].date;
 
@@ -596,7 +629,8 @@ Starting fetch with resume support...
   const results = await processTickersConcurrent(apiKey, tickers, startDate, endDate, outputDir, {
     mode,
     limitPerTicker,
-    concurrency
+    concurrency,
+    actions: args.actions !== 'false'
   });
 
   const endTime = Date.now();
@@ -0,0 +1,54 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { alignedBuyAndHold, benchmarkComparisons, buyAndHoldEquity, compareToBenchmark } from '../lib/benchmark';
+import { barsFromCloses } from './fixtures';
+
+function curve(returns: number[]): number[] {
+  return returns.reduce((acc, r) => [...acc, acc[acc.length - 1] * (1 + r)], [1]);
+}
+
+describe('Benchmark comparison', () => {
+  const dates = barsFromCloses([0, 0, 0, 0, 0, 0]).map((r) => r.date);
+  const benchmarkReturns = [0.01, -0.02, 0.015, 0.005, -0.01];
+
+  it('builds buy-and-hold equity from the first close', () => {
+    expect(buyAndHoldEquity(barsFromCloses([50, 55, 45]))).toEqual([1, 1.1, 0.9]);
+  });
+
+  it('aligns a benchmark by date and carries gaps forward', () => {
+    const index = barsFromCloses([100, 110, 120], { dates: ['2024-01-02', '2024-01-03', '2024-01-05'] });
+    expect(alignedBuyAndHold(index, ['2024-01-01', '2024-01-02', '2024-01-04', '2024-01-05'])).toEqual([1, 1, 1.1, 1.2]);
+  });
+
+  it('measures beta and alpha of a leveraged copy of the benchmark', () => {
+    const benchmark = curve(benchmarkReturns);
+    const strategy = curve(benchmarkReturns.map((r) => 2 * r));
+    const stats = compareToBenchmark(strategy, benchmark, dates);
+    expect(stats.beta).toBeCloseTo(2, 10);
+    expect(stats.correlation).toBeCloseTo(1, 10);
+    expect(stats.alphaPct).toBeCloseTo(0, 10);
+    expect(stats.excessReturnPct).toBeCloseTo((strategy[5] - benchmark[5]) * 100, 10);
+  });
+
+  it('reports alpha for a constant outperformance', () => {
+    const benchmark = curve(benchmarkReturns);
+    const strategy = curve(benchmarkReturns.map((r) => r + 0.001));
+    const stats = compareToBenchmark(strategy, benchmark, dates);
+    expect(stats.beta).toBeCloseTo(1, 10);
+    expect(stats.alphaPct).toBeGreaterThan(0);
+    // Active returns are constant, so there is no tracking error to scale by.
+    expect(stats.trackingErrorPct).toBeCloseTo(0, 10);
+    expect(stats.informationRatio).toBeNull();
+  });
+
+  it('compares against buy-and-hold and an optional index', () => {
+    const rows = barsFromCloses([100, 101, 99, 102, 103, 101]);
+    const index = { ticker: 'SPY', rows: barsFromCloses([400, 404, 400, 408, 410, 405]) };
+    const comparisons = benchmarkComparisons({ equity: buyAndHoldEquity(rows) }, rows, index);
+    expect(comparisons.map((c) => c.name)).toEqual(['buy_and_hold', 'SPY']);
+    expect(comparisons[0].stats.excessReturnPct).toBeCloseTo(0, 10);
+    expect(comparisons[0].stats.beta).toBeCloseTo(1, 10);
+    expect(comparisons[1].equity).toHaveLength(rows.length);
+    expect(benchmarkComparisons({ equity: [1, 1, 1, 1, 1, 1] }, rows)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { compareSignals, normaliseCompareRule } from '../lib/comparisons';
+import { normaliseDsl, runBacktest } from '../lib/strategy-engine';
+import { barsFromCloses } from './fixtures';
+
+// The 2-bar SMA is [NaN, 9.5, 9.5, 9.75, 10.25, 11.5, 11.5, 10.5]: the close crosses above it on bars 2
+// and 4 and below it on bars 3 and 6.
+const rows = barsFromCloses([10, 9, 10, 9.5, 11, 12, 11, 10]);
+const sma2 = { ind: 'sma' as const, period: 2 };
+
+describe('Comparison rules', () => {
+  it('normalises operands and fills in indicator defaults', () => {
+    expect(normaliseCompareRule({ left: 'close', op: '>', right: { ind: 'SMA', period: '50' } })).toEqual({
+      type: 'compare',
+      left: 'close',
+      op: '>',
+      right: { ind: 'sma', period: 50, source: 'close' },
+    });
+    expect(normaliseCompareRule({ left: { ind: 'bollinger', output: 'upper', multiple: 2.5 }, op: '<', right: 'high' })?.left).toEqual({
+      ind: 'bollinger',
+      period: 20,
+      multiple: 2.5,
+      output: 'upper',
+      source: 'close',
+    });
+    expect(normaliseCompareRule({ left: { ind: 'adx', output: 'bogus' }, op: '>', right: '25' })).toMatchObject({
+      left: { ind: 'adx', period: 14, output: 'adx' },
+      right: 25,
+    });
+  });
+
+  it('rejects unknown indicators, operators and incomplete bounds', () => {
+    expect(normaliseCompareRule({ left: { ind: 'hma' }, op: '>', right: 1 })).toBeNull();
+    expect(normaliseCompareRule({ left: 'close', op: '>=', right: 1 })).toBeNull();
+    expect(normaliseCompareRule({ left: 'close', op: 'between', right: { lower: 1 } })).toBeNull();
+    expect(normaliseCompareRule({ left: 'bid', op: '<', right: 1 })).toBeNull();
+  });
+
+  it('evaluates crosses, thresholds and inclusive ranges', () => {
+    const rule = (op: any, right: any) => normaliseCompareRule({ left: 'close', op, right })!;
+    expect(compareSignals(rule('crossesAbove', sma2), rows)).toEqual([false, false, true, false, true, false, false, false]);
+    expect(compareSignals(rule('crossesBelow', sma2), rows)).toEqual([false, false, false, true, false, false, true, false]);
+    expect(compareSignals(rule('>', 10), rows)).toEqual([false, false, false, false, true, true, true, false]);
+    expect(compareSignals(rule('between', { lower: 9.5, upper: 11 }), rows)).toEqual([
+      true, false, true, true, true, false, true, true,
+    ]);
+    // Comparisons against a warming-up indicator are false.
+    expect(compareSignals(rule('<', sma2), rows)[0]).toBe(false);
+  });
+});
+
+describe('Comparison rules in the engine', () => {
+  it('trades like the equivalent sma_cross rule', () => {
+    const legacy = runBacktest(
+      normaliseDsl({ fill: 'same_close', rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2 } }] }),
+      rows,
+    );
+    const generic = runBacktest(
+      normaliseDsl({
+        fill: 'same_close',
+        rules: [],
+        entry: { left: 'close', op: 'crossesAbove', right: sma2 },
+        exit: { left: 'close', op: 'crossesBelow', right: sma2 },
+      }),
+      rows,
+    );
+    expect(generic.trades).toEqual(legacy.trades);
+    expect(generic.trades.map((t) => [t.entryIdx, t.exitIdx])).toEqual([[2, 3], [4, 6]]);
+  });
+
+  it('uses flat comparisons as entries unless marked as exits', () => {
+    const dsl = normaliseDsl({
+      fill: 'same_close',
+      rules: [
+        { type: 'compare', left: 'close', op: 'crossesBelow', right: sma2, side: 'short' },
+        { type: 'compare', left: 'close', op: 'crossesAbove', right: sma2, side: 'short', signal: 'exit' },
+      ],
+    });
+    expect(dsl.direction).toBe('short');
+    const result = runBacktest(dsl, rows);
+    expect(result.trades.map((t) => [t.side, t.entryIdx, t.exitIdx])).toEqual([['short', 3, 4]]);
+  });
+});
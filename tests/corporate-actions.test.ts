@@ -0,0 +1,85 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { actionsUrl, adjustPrices, normaliseCorporateActions, normalisePriceMode, type CorporateActions } from '../lib/corporate-actions';
+import { barsFromCloses } from './fixtures';
+
+describe('Corporate actions', () => {
+  // Raw prices: a 2-for-1 split on Jan 3 halves the price; a $1 dividend goes ex on Jan 5.
+  const raw = barsFromCloses([100, 102, 51, 52, 51, 53], { volume: 100 });
+  const actions: CorporateActions = {
+    ticker: 'TEST',
+    barsAdjusted: false,
+    dividends: [{ exDate: '2024-01-05', amount: 1 }],
+    splits: [{ date: '2024-01-03', from: 1, to: 2 }],
+  };
+
+  it('split-adjusts raw bars', () => {
+    const adjusted = adjustPrices(raw, actions, 'split_adjusted');
+    expect(adjusted.map((r) => r.close)).toEqual([50, 51, 51, 52, 51, 53]);
+    expect(adjusted[0].volume).toBe(200);
+    expect(adjusted[2].volume).toBe(100);
+  });
+
+  it('recovers raw prices from split-adjusted bars', () => {
+    const stored = adjustPrices(raw, actions, 'split_adjusted');
+    const unadjusted = adjustPrices(stored, { ...actions, barsAdjusted: true }, 'raw');
+    expect(unadjusted.map((r) => r.close)).toEqual(raw.map((r) => r.close));
+    expect(unadjusted[0].volume).toBe(100);
+    expect(adjustPrices(raw, actions, 'raw')).toBe(raw);
+  });
+
+  it('back-adjusts for dividends in total-return mode', () => {
+    const total = adjustPrices(raw, actions, 'total_return');
+    const factor = 1 - 1 / 52;
+    expect(total.slice(4).map((r) => r.close)).toEqual([51, 53]);
+    total.slice(0, 4).forEach((row, i) => expect(row.close).toBeCloseTo([50, 51, 51, 52][i] * factor, 10));
+    // The ex-date return now includes the dividend: (51 + 1) / 52.
+    expect(total[4].close / total[3].close).toBeCloseTo(1, 10);
+  });
+
+  it('converts the dividend to split-adjusted terms when a split follows it', () => {
+    const withLaterSplit: CorporateActions = {
+      ticker: 'TEST',
+      barsAdjusted: true,
+      dividends: [{ exDate: '2024-01-02', amount: 2 }],
+      splits: [{ date: '2024-01-04', from: 1, to: 2 }],
+    };
+    const total = adjustPrices(barsFromCloses([50, 49, 50, 50], { volume: 100 }), withLaterSplit, 'total_return');
+    // $2 before the split is $1 per current share.
+    expect(total[0].close).toBeCloseTo(50 * (1 - 1 / 50), 10);
+    expect(total[1].close).toBe(49);
+  });
+
+  it('normalises stored and Polygon-shaped actions', () => {
+    expect(
+      normaliseCorporateActions(
+        {
+          dividends: [
+            { ex_dividend_date: '2024-02-09', cash_amount: 0.24, pay_date: '2024-02-15' },
+            { exDate: 'soon', amount: 1 },
+          ],
+          splits: [{ execution_date: '2020-08-31', split_from: 1, split_to: 4 }],
+        },
+        'aapl',
+      ),
+    ).toEqual({
+      ticker: 'AAPL',
+      barsAdjusted: true,
+      dividends: [{ exDate: '2024-02-09', amount: 0.24, payDate: '2024-02-15' }],
+      splits: [{ date: '2020-08-31', from: 1, to: 4 }],
+    });
+    expect(normalisePriceMode('total_return')).toBe('total_return');
+    expect(normalisePriceMode('adjusted')).toBe('split_adjusted');
+  });
+
+  it('finds the actions file next to any bar file', () => {
+    expect(actionsUrl('https://bucket.s3.amazonaws.com/prod/AAPL.parquet')).toBe(
+      'https://bucket.s3.amazonaws.com/prod/AAPL.actions.json',
+    );
+    expect(actionsUrl('https://cdn.example.com/v1.2/MSFT.csv')).toBe('https://cdn.example.com/v1.2/MSFT.actions.json');
+    expect(actionsUrl('https://cdn.example.com/bars/SPY.json?v=3')).toBe(
+      'https://cdn.example.com/bars/SPY.actions.json?v=3',
+    );
+    expect(actionsUrl('/data/QQQ')).toBe('/data/QQQ.actions.json');
+  });
+});
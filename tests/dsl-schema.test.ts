@@ -0,0 +1,121 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { DSL_SCHEMA_ID, DSL_SCHEMA_VERSION, strategyDslSchema, validateDsl } from '../lib/dsl-schema';
+import { listIndicators } from '../lib/indicator-registry';
+import { normaliseDsl } from '../lib/strategy-engine';
+
+const smaCross = { type: 'sma_cross', params: { fast: 10, slow: 30, enter: 'fast_above', exit: 'fast_below' } };
+
+describe('DSL validation', () => {
+  it('accepts a complete strategy without issues', () => {
+    const dsl = {
+      version: DSL_SCHEMA_VERSION,
+      name: 'Trend',
+      direction: 'long',
+      capital: 50000,
+      fill: 'next_open',
+      costs: { commission: 1, slippage: { type: 'range', fraction: 0.1 } },
+      risk: { stopLossPct: 5, atrStop: { period: 14, multiple: 3 } },
+      sizing: { type: 'volatility', measure: 'atr', period: 20, riskPct: 1, maxFraction: 0.5 },
+      holding: { minBars: 2, maxBars: 20 },
+      filters: [{ type: 'day_of_week', days: ['mon', 2] }],
+      rules: [smaCross],
+      entry: {
+        all: [
+          { left: 'close', op: '>', right: { ind: 'bollinger', output: 'upper', period: 20 } },
+          { not: { type: 'rsi_threshold', params: { low: 30, high: 70 } } },
+        ],
+      },
+      exit: { left: 'close', op: 'between', right: { lower: 'low', upper: { ind: 'sma', period: 50 } }, timeframe: 'weekly' },
+    };
+    expect(validateDsl(dsl)).toEqual({ valid: true, version: DSL_SCHEMA_VERSION, errors: [], warnings: [] });
+  });
+
+  it('reports unknown rule types, operators and indicators with suggestions', () => {
+    const { valid, errors } = validateDsl({
+      rules: [
+        { type: 'sma_corss', params: { fast: 10, slow: 30 } },
+        { left: 'clse', op: 'crossAbove', right: { ind: 'smaa' } },
+      ],
+    });
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      { path: 'rules.0.type', message: 'Unknown rule type "sma_corss"; did you mean "sma_cross"?' },
+      { path: 'rules.1.left', message: 'Unknown price field "clse"; did you mean "close"?' },
+      expect.objectContaining({ path: 'rules.1.op', message: expect.stringMatching(/; did you mean "crossesAbove"\?$/) }),
+      { path: 'rules.1.right.ind', message: 'Unknown indicator "smaa"; did you mean "sma"?' },
+    ]);
+  });
+
+  it('warns about crossed parameters, counting defaults', () => {
+    const { valid, warnings } = validateDsl({
+      rules: [
+        { type: 'ema_cross', params: { fast: 50, slow: 20 } },
+        { type: 'sma_cross', params: { fast: 30 } },
+        { type: 'rsi_threshold', params: { low: 70, high: 30 } },
+      ],
+      holding: { minBars: 10, maxBars: 5 },
+    });
+    expect(valid).toBe(true);
+    expect(warnings).toEqual([
+      { path: 'holding.minBars', message: 'minBars (10) is not below maxBars (5), so signal exits never apply' },
+      { path: 'rules.0.params.fast', message: 'fast (50) is not below slow (20)' },
+      { path: 'rules.1.params.fast', message: 'fast (30) is not below slow (20, the default)' },
+      { path: 'rules.2.params.low', message: 'low (70) is not below high (30)' },
+    ]);
+  });
+
+  it('reports what normaliseDsl would drop as errors and what it coerces as warnings', () => {
+    const { errors, warnings } = validateDsl({
+      fill: 'next_bar',
+      capital: -5,
+      risk: { stopLosPct: 5, takeProfitPct: 0 },
+      rules: [{ type: 'sma_cross', params: { fast: '5', slow: 20 } }],
+      entry: { any: [] },
+    });
+    expect(errors.map((issue) => issue.path)).toEqual(['capital', 'fill', 'risk.takeProfitPct', 'entry.any']);
+    expect(warnings).toEqual([
+      { path: 'risk.stopLosPct', message: 'Unknown field "stopLosPct" is ignored; did you mean "stopLossPct"?' },
+      { path: 'rules.0.params.fast', message: 'Expected a number, got the string "5"' },
+    ]);
+  });
+
+  it('makes coercions errors in strict mode', () => {
+    const dsl = { rules: [{ left: 'close', op: '>', right: { ind: 'rsi', period: 0, colour: 'red' } }] };
+    expect(validateDsl(dsl).valid).toBe(true);
+    const strict = validateDsl(dsl, { strict: true });
+    expect(strict.valid).toBe(false);
+    expect(strict.errors.map((issue) => issue.path)).toEqual(['rules.0.right.colour', 'rules.0.right.period']);
+  });
+
+  it('rejects non-objects, empty strategies and other schema versions', () => {
+    expect(validateDsl(null).errors).toEqual([{ path: '', message: 'Strategy DSL must be an object' }]);
+    expect(validateDsl({ rules: [] }).errors).toEqual([
+      { path: 'rules', message: 'A strategy needs at least one rule or an entry condition' },
+    ]);
+    expect(validateDsl({ version: 2, rules: [smaCross] }).errors[0].path).toBe('version');
+  });
+
+  it('accepts normaliseDsl output in strict mode', () => {
+    const normalised = normaliseDsl({ rules: [smaCross], risk: { stopLossPct: 5 }, costs: { slippage: 5 } });
+    expect(validateDsl(JSON.parse(JSON.stringify(normalised)), { strict: true }).errors).toEqual([]);
+  });
+});
+
+describe('DSL schema', () => {
+  it('is versioned and lists the registered indicators', () => {
+    const schema = strategyDslSchema() as any;
+    expect(schema.$id).toBe(DSL_SCHEMA_ID);
+    expect(schema.properties.version).toEqual({ const: DSL_SCHEMA_VERSION });
+    expect(schema.$defs.indicator.oneOf.map((entry: any) => entry.properties.ind.const)).toEqual(
+      listIndicators().map((definition) => definition.name),
+    );
+    expect(schema.$defs.rule.oneOf.map((entry: any) => entry.properties?.type.const ?? entry.$ref)).toEqual([
+      'macd_cross',
+      'rsi_threshold',
+      'sma_cross',
+      'ema_cross',
+      '#/$defs/compareRule',
+    ]);
+  });
+});
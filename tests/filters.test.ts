@@ -0,0 +1,111 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { entryFilterMask, normaliseFilters, regimeMask, regimeTickers } from '../lib/filters';
+import { normaliseDsl, runBacktest } from '../lib/strategy-engine';
+import { barsFromCloses } from './fixtures';
+
+// 2024-01-01 is a Monday.
+const dates = ['2024-01-01', '2024-01-02', '2024-01-05', '2024-01-31', '2024-02-01', '2024-02-05'].map((date) => ({ date }));
+
+describe('Entry filters', () => {
+  it('allows only the listed weekdays and months', () => {
+    expect(entryFilterMask([{ type: 'day_of_week', days: [1, 5] }], dates)).toEqual([true, false, true, false, false, true]);
+    expect(entryFilterMask([{ type: 'month', months: [2] }], dates)).toEqual([false, false, false, false, true, true]);
+  });
+
+  it('skips or restricts to date windows', () => {
+    const windows = [{ from: '2024-01-02', to: '2024-01-31' }];
+    expect(entryFilterMask([{ type: 'date_window', mode: 'exclude', windows }], dates)).toEqual([true, false, false, false, true, true]);
+    expect(entryFilterMask([{ type: 'date_window', mode: 'include', windows }], dates)).toEqual([false, true, true, true, false, false]);
+  });
+
+  it('skips the last days before a date', () => {
+    // 2024-02-01 minus 5 days: 2024-01-27 through 2024-01-31 are blocked; the date itself is not.
+    expect(entryFilterMask([{ type: 'before_date', dates: ['2024-02-01'], days: 5 }], dates)).toEqual([
+      true,
+      true,
+      true,
+      false,
+      true,
+      true,
+    ]);
+  });
+
+  it('requires every filter to pass', () => {
+    const mask = entryFilterMask(
+      [
+        { type: 'day_of_week', days: [1] },
+        { type: 'month', months: [1] },
+      ],
+      dates,
+    );
+    expect(mask).toEqual([true, false, false, false, false, false]);
+  });
+
+  it('normalises filters and drops invalid ones', () => {
+    expect(
+      normaliseFilters([
+        { type: 'day_of_week', days: ['Monday', 'fri', 9] },
+        { type: 'month', months: [0, 13] },
+        { type: 'date_window', windows: [{ from: '2024-04-20', to: '2024-05-10' }, { from: '2024-05-01', to: '2024-04-01' }] },
+        { type: 'before_date', date: '2024-12-20', days: '3' },
+        { type: 'regime', ticker: ' spy ' },
+        { type: 'regime', ticker: '', period: 50 },
+        { type: 'moon_phase' },
+      ]),
+    ).toEqual([
+      { type: 'day_of_week', days: [1, 5] },
+      { type: 'date_window', mode: 'exclude', windows: [{ from: '2024-04-20', to: '2024-05-10' }] },
+      { type: 'before_date', dates: ['2024-12-20'], days: 3 },
+      { type: 'regime', ticker: 'SPY', indicator: 'sma', period: 200, condition: 'above' },
+    ]);
+  });
+
+  it('gates entries in the backtest but not exits', () => {
+    // sma_cross(1, 2) crosses up on 2024-01-03 (Wednesday) and 2024-01-05 (Friday), down on 2024-01-04 and 2024-01-07.
+    const rows = barsFromCloses([10, 9, 10, 9.5, 11, 12, 11, 10]);
+    const dsl = normaliseDsl({
+      fill: 'same_close',
+      filters: [{ type: 'day_of_week', days: ['fri'] }],
+      rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2 } }],
+    });
+
+    const result = runBacktest(dsl, rows);
+    expect(result.trades.map((t) => [rows[t.entryIdx].date, rows[t.exitIdx].date])).toEqual([['2024-01-05', '2024-01-07']]);
+  });
+
+  describe('regime', () => {
+    const spy = [10, 11, 12, 11, 10, 13].map((close, i) => ({ date: `2024-01-0${i + 1}`, close }));
+    const filter = { type: 'regime', ticker: 'SPY', indicator: 'sma', period: 2, condition: 'above' } as const;
+
+    it('compares the reference close with its moving average', () => {
+      // SMA(2): NaN, 10.5, 11.5, 11.5, 10.5, 11.5
+      expect(regimeMask(filter, spy, spy)).toEqual([false, true, true, false, false, true]);
+      expect(regimeMask({ ...filter, condition: 'below' }, spy, spy)).toEqual([false, false, false, true, true, false]);
+    });
+
+    it('aligns by date using the latest reference bar on or before each row', () => {
+      const rows = [{ date: '2023-12-29' }, { date: '2024-01-02' }, { date: '2024-01-04' }, { date: '2024-01-08' }];
+      expect(regimeMask(filter, rows, spy)).toEqual([false, true, false, true]);
+    });
+
+    it('blocks entries when the reference is missing', () => {
+      expect(entryFilterMask([filter], dates, {})).toEqual(dates.map(() => false));
+      expect(regimeTickers([filter, { ...filter, period: 5 }, { type: 'month', months: [1] }])).toEqual(['SPY']);
+    });
+
+    it('gates backtest entries on the reference regime', () => {
+      const rows = barsFromCloses([10, 9, 10, 9.5, 11, 12, 11, 10]);
+      const dsl = normaliseDsl({
+        fill: 'same_close',
+        filters: [filter],
+        rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2 } }],
+      });
+
+      // SPY is above its SMA on Jan 2, 3 and 6 (carried to Jan 7 and 8): only the Jan 3 entry qualifies.
+      const result = runBacktest(dsl, rows, { references: { SPY: spy } });
+      expect(result.trades.map((t) => rows[t.entryIdx].date)).toEqual(['2024-01-03']);
+      expect(runBacktest(dsl, rows).trades).toEqual([]);
+    });
+  });
+});
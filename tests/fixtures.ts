@@ -0,0 +1,27 @@
+import type { Row } from '../types/row';
+
+export type BarOptions = {
+  ticker?: string;
+  /** Date of the first bar; later bars follow on consecutive calendar days. */
+  start?: string;
+  /** Explicit dates, one per close; overrides `start`. */
+  dates?: string[];
+  /** Bars span close - range to close + range. */
+  range?: number;
+  volume?: number;
+};
+
+/** Bars opening at their close, one per value of `closes`. */
+export function barsFromCloses(closes: number[], options: BarOptions = {}): Row[] {
+  const { ticker = 'TEST', start = '2024-01-01', dates, range = 0, volume = 1000 } = options;
+  const first = Date.parse(start);
+  return closes.map((close, i) => {
+    const date = dates?.[i] ?? new Date(first + i * 86_400_000).toISOString().slice(0, 10);
+    return { ticker, date, timestamp: Date.parse(date), open: close, high: close + range, low: close - range, close, volume };
+  });
+}
+
+/** A single bar on `date`, with `fields` overriding the defaults of barsFromCloses. */
+export function bar(date: string, close: number, fields: Partial<Row> = {}): Row {
+  return { ...barsFromCloses([close], { dates: [date] })[0], ...fields };
+}
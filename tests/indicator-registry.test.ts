@@ -0,0 +1,67 @@
+/// <reference types="vitest" />
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  clearIndicatorMemo,
+  computeIndicator,
+  getIndicator,
+  listIndicators,
+  normaliseParams,
+  registerIndicator,
+} from '../lib/indicator-registry';
+import { SMA } from '../lib/indicators';
+import { barsFromCloses } from './fixtures';
+
+describe('Indicator registry', () => {
+  beforeEach(() => clearIndicatorMemo());
+
+  it('declares parameters, inputs and outputs for the built-in indicators', () => {
+    expect(listIndicators().map((d) => d.name)).toContain('keltner');
+    const keltner = getIndicator('keltner')!;
+    expect(Object.keys(keltner.params)).toEqual(['period', 'multiple', 'atrPeriod']);
+    expect(keltner.inputs).toEqual(['high', 'low', 'close']);
+    expect(keltner.outputs).toEqual(['middle', 'upper', 'lower']);
+    expect(getIndicator('rsi')!.inputs).toEqual(['source']);
+  });
+
+  it('fills in defaults, rounds integer parameters and clamps to the schema', () => {
+    const keltner = getIndicator('keltner')!;
+    expect(normaliseParams(keltner, { period: '10.6', multiple: 1.5, atrPeriod: -3 })).toEqual({ period: 11, multiple: 1.5, atrPeriod: 1 });
+    expect(normaliseParams(keltner, {})).toEqual({ period: 20, multiple: 2, atrPeriod: 10 });
+  });
+
+  it('memoizes series per ticker, range and parameters', () => {
+    const rows = barsFromCloses([1, 2, 3, 4, 5]);
+    const first = computeIndicator(rows, 'sma', { period: 2 });
+    expect(first.value).toEqual(SMA([1, 2, 3, 4, 5], 2));
+    // A separately loaded copy of the same bars hits the memo; other parameters or bars don't.
+    expect(computeIndicator(barsFromCloses([1, 2, 3, 4, 5]), 'sma', { period: 2 })).toBe(first);
+    expect(computeIndicator(rows, 'sma', { period: 3 })).not.toBe(first);
+    expect(computeIndicator(barsFromCloses([1, 2, 9, 4, 5]), 'sma', { period: 2 }).value[2]).toBe(5.5);
+    expect(computeIndicator(barsFromCloses([1, 2, 3, 4, 5], { ticker: 'OTHER' }), 'sma', { period: 2 })).not.toBe(first);
+  });
+
+  it('reads the requested source field', () => {
+    const rows = barsFromCloses([1, 2, 3], { range: 1 });
+    expect(computeIndicator(rows, 'sma', { period: 1 }, 'high').value).toEqual([2, 3, 4]);
+  });
+
+  it('accepts new indicators and drops series of a replaced definition', () => {
+    const rows = barsFromCloses([1, 2, 3]);
+    const define = (scale: number) =>
+      registerIndicator({
+        name: 'scaled',
+        label: 'Scaled',
+        description: 'The source times a constant',
+        params: {},
+        inputs: ['source'],
+        outputs: ['value'],
+        compute: ([values]) => ({ value: values.map((v) => v * scale) }),
+      });
+    define(2);
+    expect(computeIndicator(rows, 'scaled').value).toEqual([2, 4, 6]);
+    define(3);
+    expect(computeIndicator(rows, 'scaled').value).toEqual([3, 6, 9]);
+    expect(() => registerIndicator({ ...getIndicator('scaled')!, name: 'Bad Name' })).toThrow();
+    expect(() => computeIndicator(rows, 'missing')).toThrow('Unknown indicator: missing');
+  });
+});
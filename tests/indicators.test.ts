@@ -1,6 +1,23 @@
 /// <reference types="vitest" />
 import { describe, expect, it } from 'vitest';
-import { SMA, EMA, MACD, RSI } from '../lib/indicators';
+import {
+  SMA,
+  EMA,
+  MACD,
+  RSI,
+  ATR,
+  StdDev,
+  BollingerBands,
+  Stochastic,
+  ADX,
+  CCI,
+  WilliamsR,
+  OBV,
+  RollingVWAP,
+  Donchian,
+  Keltner,
+  ROC,
+} from '../lib/indicators';
 
 describe('Technical Indicators', () => {
   const testPrices = [100, 102, 104, 103, 105, 107, 106, 108, 110, 109];
@@ -106,4 +123,136 @@ describe('Technical Indicators', () => {
       expect(lastRSI).toBeLessThan(50);
     });
   });
-});
\ No newline at end of file
+
+  describe('StdDev (rolling standard deviation)', () => {
+    it('should use the sample standard deviation of each window', () => {
+      const sd = StdDev([2, 4, 4, 4, 5, 5, 7, 9], 4);
+
+      expect(sd[2]).toBeNaN();
+      expect(sd[3]).toBeCloseTo(1, 10); // [2, 4, 4, 4]: mean 3.5, squared deviations 3 / 3
+      expect(sd[7]).toBeCloseTo(Math.sqrt(11 / 3), 10); // [5, 5, 7, 9]: mean 6.5
+    });
+  });
+
+  describe('Bar-based indicators', () => {
+    const high = [10, 11, 12, 11, 13, 14];
+    const low = [8, 9, 10, 9, 11, 12];
+    const close = [9, 10, 11, 10, 12, 13];
+    const volume = [100, 200, 100, 300, 200, 100];
+
+    it('should calculate Bollinger Bands with the population standard deviation', () => {
+      const { middle, upper, lower } = BollingerBands(close, 3, 2);
+
+      expect(upper[1]).toBeNaN();
+      expect(middle[2]).toBeCloseTo(10, 10);
+      expect(upper[2]).toBeCloseTo(10 + 2 * Math.sqrt(2 / 3), 10); // [9, 10, 11]
+      expect(lower[2]).toBeCloseTo(10 - 2 * Math.sqrt(2 / 3), 10);
+    });
+
+    it('should calculate Stochastic %K and %D', () => {
+      const { k, d } = Stochastic(high, low, close, 3, 3);
+
+      expect(k[1]).toBeNaN();
+      expect(k.slice(2)).toEqual([75, 100 / 3, 75, 80]);
+      expect(d[3]).toBeNaN();
+      expect(d[4]).toBeCloseTo((75 + 100 / 3 + 75) / 3, 10);
+      expect(d[5]).toBeCloseTo((100 / 3 + 75 + 80) / 3, 10);
+      expect(Stochastic([5, 5, 5], [5, 5, 5], [5, 5, 5], 3).k[2]).toBe(50);
+    });
+
+    it('should calculate Williams %R', () => {
+      const wr = WilliamsR(high, low, close, 3);
+
+      expect(wr[1]).toBeNaN();
+      expect(wr[2]).toBeCloseTo(-25, 10);
+      expect(wr[3]).toBeCloseTo((-100 * 2) / 3, 10);
+    });
+
+    it('should calculate CCI on the typical price', () => {
+      const cci = CCI(high, low, close, 3);
+
+      expect(cci[1]).toBeNaN();
+      expect(cci[2]).toBeCloseTo(100, 10); // [9, 10, 11]: mean deviation 2/3
+      expect(cci[3]).toBeCloseTo(-50, 10); // [10, 11, 10]: mean 31/3, mean deviation 4/9
+    });
+
+    it('should accumulate OBV from zero', () => {
+      expect(OBV(close, volume)).toEqual([0, 200, 300, 0, 200, 300]);
+    });
+
+    it('should calculate a rolling VWAP of the typical price', () => {
+      const vwap = RollingVWAP(high, low, close, volume, 3);
+
+      expect(vwap[1]).toBeNaN();
+      expect(vwap[2]).toBeCloseTo((9 * 100 + 10 * 200 + 11 * 100) / 400, 10);
+      expect(vwap[3]).toBeCloseTo((10 * 200 + 11 * 100 + 10 * 300) / 600, 10);
+      expect(RollingVWAP([1, 1], [1, 1], [1, 1], [0, 0], 2)[1]).toBeNaN();
+    });
+
+    it('should calculate Donchian channels', () => {
+      const { upper, middle, lower } = Donchian(high, low, 3);
+
+      expect(upper[1]).toBeNaN();
+      expect([upper[3], middle[3], lower[3]]).toEqual([12, 10.5, 9]);
+      expect([upper[5], lower[5]]).toEqual([14, 9]);
+    });
+
+    it('should calculate ATR with Wilder smoothing of the true range', () => {
+      const atr = ATR(high, low, close, 3);
+
+      expect(atr[1]).toBeNaN();
+      expect(atr[2]).toBeCloseTo(2, 10); // the first ATR is the mean of TR 2, 2, 2
+      expect(atr[3]).toBeCloseTo(2, 10);
+      // Bar 4 gaps up: TR is |13 - 10| = 3 from the previous close, not the bar's range of 2.
+      expect(atr[4]).toBeCloseTo((2 * 2 + 3) / 3, 10);
+      expect(atr[5]).toBeCloseTo(((7 / 3) * 2 + 2) / 3, 10);
+    });
+
+    it('should build Keltner channels from the EMA and ATR', () => {
+      const { upper, middle, lower } = Keltner(high, low, close, 3, 2, 4);
+      const ema = EMA(close, 3);
+      const atr = ATR(high, low, close, 4);
+
+      expect(upper[2]).toBeNaN(); // ATR(4) is still warming up
+      expect(middle[2]).toBeCloseTo(ema[2], 10);
+      expect(upper[3]).toBeCloseTo(ema[3] + 2 * atr[3], 10);
+      expect(lower[5]).toBeCloseTo(ema[5] - 2 * atr[5], 10);
+    });
+
+    it('should calculate the rate of change in percent', () => {
+      const roc = ROC(close, 2);
+
+      expect(roc[1]).toBeNaN();
+      expect(roc[2]).toBeCloseTo((100 * 2) / 9, 10);
+      expect(roc[3]).toBeCloseTo(0, 10);
+    });
+  });
+
+  describe('ADX / DMI', () => {
+    it('should follow Wilder smoothing', () => {
+      const { adx, plusDI, minusDI } = ADX([10, 12, 11, 13, 12], [9, 10, 9, 11, 10], [9.5, 11, 10, 12, 11], 2);
+
+      expect(plusDI[1]).toBeNaN();
+      // Bars 1-2: TR 2.5 + 2, +DM 2, -DM 1.
+      expect(plusDI[2]).toBeCloseTo((100 * 2) / 4.5, 10);
+      expect(minusDI[2]).toBeCloseTo((100 * 1) / 4.5, 10);
+      expect(adx[2]).toBeNaN();
+      // Bar 3: TR 5.25, +DM 3, -DM 0.5; ADX starts as the mean of the first two DX values.
+      const dx2 = 100 / 3;
+      const dx3 = (100 * (3 - 0.5)) / (3 + 0.5);
+      expect(adx[3]).toBeCloseTo((dx2 + dx3) / 2, 10);
+      // Bar 4: TR 4.625, +DM 1.5, -DM 1.25.
+      const dx4 = (100 * (1.5 - 1.25)) / (1.5 + 1.25);
+      expect(adx[4]).toBeCloseTo(((dx2 + dx3) / 2 + dx4) / 2, 10);
+    });
+
+    it('should read 100 in a steady uptrend', () => {
+      const high = [10, 11, 12, 13, 14, 15];
+      const { adx, plusDI, minusDI } = ADX(high, high.map((h) => h - 2), high.map((h) => h - 1), 2);
+
+      expect(plusDI[5]).toBeCloseTo(50, 10);
+      expect(minusDI[5]).toBe(0);
+      expect(adx[5]).toBeCloseTo(100, 10);
+    });
+  });
+});
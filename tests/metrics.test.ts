@@ -0,0 +1,64 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { computePerformance, drawdown, periodsPerYear } from '../lib/metrics';
+
+describe('Performance metrics', () => {
+  const dates = ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05'];
+
+  describe('drawdown', () => {
+    it('measures the deepest decline and the longest time underwater', () => {
+      const result = drawdown([1, 1.2, 0.9, 1.1, 1.3], dates);
+
+      expect(result.maxDrawdownPct).toBeCloseTo(25, 10);
+      expect(result.maxDrawdownDays).toBe(2);
+    });
+
+    it('reports zero for a curve that never declines', () => {
+      expect(drawdown([1, 1, 1.1], dates.slice(0, 3))).toEqual({ maxDrawdownPct: 0, maxDrawdownDays: 0 });
+    });
+  });
+
+  it('annualises using the bar frequency implied by the dates', () => {
+    expect(periodsPerYear(['2023-01-01', '2024-01-01'])).toBeCloseTo(365.25 / 365, 5);
+    expect(periodsPerYear(['2024-01-01'])).toBe(252);
+  });
+
+  it('summarises trades', () => {
+    const trades = [
+      { pnl: 0.1, entryIdx: 0, exitIdx: 2 },
+      { pnl: 0.05, entryIdx: 2, exitIdx: 3 },
+      { pnl: -0.05, entryIdx: 3, exitIdx: 4 },
+      { pnl: -0.02, entryIdx: 4, exitIdx: 5 },
+      { pnl: -0.01, entryIdx: 5, exitIdx: 9 },
+      { pnl: 0.02, entryIdx: 9, exitIdx: 11 },
+    ];
+    const stats = computePerformance({ equity: [1, 1.1, 1.05, 1.08, 1.1], dates, trades, barsInMarket: 3 });
+
+    expect(stats.profitFactor).toBeCloseTo(0.17 / 0.08, 10);
+    expect(stats.avgWinPct).toBeCloseTo(17 / 3, 10);
+    expect(stats.avgLossPct).toBeCloseTo(-8 / 3, 10);
+    expect(stats.expectancyPct).toBeCloseTo(1.5, 10);
+    expect(stats.maxWinStreak).toBe(2);
+    expect(stats.maxLossStreak).toBe(3);
+    expect(stats.exposurePct).toBeCloseTo(60, 10);
+    expect(stats.avgBarsHeld).toBeCloseTo(11 / 6, 10);
+  });
+
+  it('computes return and risk ratios from the equity curve', () => {
+    const oneYear = ['2023-01-01', '2023-07-02', '2024-01-01'];
+    const stats = computePerformance({ equity: [1, 0.9, 1.2], dates: oneYear, trades: [], barsInMarket: 3 });
+
+    expect(stats.cagrPct).toBeCloseTo(20, 1);
+    expect(stats.maxDrawdownPct).toBeCloseTo(10, 10);
+    expect(stats.calmar).toBeCloseTo(stats.cagrPct / 10, 10);
+    expect(stats.sharpe).toBeGreaterThan(0);
+    expect(stats.sortino).toBeGreaterThan(stats.sharpe);
+    expect(stats.profitFactor).toBeNull();
+  });
+
+  it('returns neutral values for a flat curve', () => {
+    const stats = computePerformance({ equity: [1, 1, 1], dates: dates.slice(0, 3), trades: [], barsInMarket: 0 });
+
+    expect(stats).toMatchObject({ cagrPct: 0, volatilityPct: 0, sharpe: 0, sortino: null, calmar: null, exposurePct: 0 });
+  });
+});
@@ -0,0 +1,79 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { percentile, runMonteCarlo, seededRandom } from '../lib/monte-carlo';
+import { runBacktest } from '../lib/strategy-engine';
+import { barsFromCloses } from './fixtures';
+
+const trades = [0.1, -0.05, 0.2, -0.1, 0.05, -0.2, 0.15, 0.03].map((pnl) => ({ pnl }));
+const equity = [1, 1.02, 0.99, 1.05, 1.01, 1.08, 1.04];
+
+describe('Monte Carlo', () => {
+  it('is reproducible for a given seed', () => {
+    const a = seededRandom(7);
+    const b = seededRandom(7);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(first.every((x) => x >= 0 && x < 1)).toBe(true);
+
+    const run = () => runMonteCarlo({ trades, equity }, { method: 'resample', iterations: 200, seed: 3 });
+    expect(run()).toEqual(run());
+    expect(runMonteCarlo({ trades, equity }, { method: 'resample', iterations: 200, seed: 4 })).not.toEqual(run());
+  });
+
+  it('interpolates percentiles linearly', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 25)).toBe(2.5);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('keeps the final return fixed when shuffling trades', () => {
+    const final = (trades.reduce((acc, t) => acc * (1 + t.pnl), 1) - 1) * 100;
+    const result = runMonteCarlo({ trades, equity }, { iterations: 300 });
+    expect(result.finalReturnPct.p5).toBeCloseTo(final, 9);
+    expect(result.finalReturnPct.p95).toBeCloseTo(final, 9);
+    // Order changes the path, so drawdowns vary between runs.
+    expect(result.maxDrawdownPct.p95).toBeGreaterThan(result.maxDrawdownPct.p5);
+    expect(result.histogram.reduce((acc, bin) => acc + bin.count, 0)).toBe(300);
+  });
+
+  it('varies the final return when resampling', () => {
+    const result = runMonteCarlo({ trades, equity }, { method: 'resample', iterations: 500 });
+    expect(result.finalReturnPct.p95).toBeGreaterThan(result.finalReturnPct.p5);
+    expect(result.histogram.length).toBe(30);
+
+    const returns = runMonteCarlo({ trades: [], equity }, { method: 'returns', iterations: 100 });
+    expect(returns.finalReturnPct.p95).toBeGreaterThan(returns.finalReturnPct.p5);
+  });
+
+  it('counts paths that breach the ruin threshold', () => {
+    const losing = [{ pnl: -0.3 }, { pnl: -0.3 }, { pnl: 0.5 }];
+    // Every ordering dips below 75% of capital; none falls below 40%.
+    expect(runMonteCarlo({ trades: losing, equity }, { iterations: 50, ruinThresholdPct: 25 }).probabilityOfRuinPct).toBe(100);
+    expect(runMonteCarlo({ trades: losing, equity }, { iterations: 50, ruinThresholdPct: 60 }).probabilityOfRuinPct).toBe(0);
+  });
+
+  it('replays sized trades at the share of equity they committed', () => {
+    const rows = barsFromCloses(
+      Array.from({ length: 120 }, (_, i) => 100 + 10 * Math.sin(i / 6) + i * 0.2),
+      { range: 1 },
+    );
+    const backtest = runBacktest(
+      {
+        name: 'Half in',
+        sizing: { type: 'fixed_fraction', fraction: 0.5 },
+        costs: { commissionBps: 10 },
+        rules: [{ type: 'sma_cross', params: { fast: 3, slow: 8 } }],
+      },
+      rows,
+    );
+    const last = backtest.trades[backtest.trades.length - 1];
+    expect(backtest.trades.length).toBeGreaterThanOrEqual(2);
+    expect(backtest.trades.every((t) => t.weight > 0.45 && t.weight < 0.55)).toBe(true);
+
+    // Shuffling keeps the final return, which must match the backtest's equity after its last trade.
+    const result = runMonteCarlo(backtest, { iterations: 50 });
+    expect(result.finalReturnPct.p50).toBeCloseTo((backtest.equity[last.exitIdx] - 1) * 100, 9);
+    const allIn = (backtest.trades.reduce((acc, t) => acc * (1 + t.pnl), 1) - 1) * 100;
+    expect(result.finalReturnPct.p50).not.toBeCloseTo(allIn, 2);
+  });
+});
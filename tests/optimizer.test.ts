@@ -0,0 +1,104 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { expandGrid, extractParamRanges, rankRows, runParameterSweep } from '../lib/optimizer';
+import { normaliseDsl, runBacktest } from '../lib/strategy-engine';
+import { barsFromCloses } from './fixtures';
+
+const rows = barsFromCloses(
+  Array.from({ length: 120 }, (_, i) => 100 + 10 * Math.sin(i / 6) + i * 0.2),
+  { range: 1 },
+);
+
+describe('Parameter sweep', () => {
+  const rawDsl = {
+    name: 'SMA sweep',
+    rules: [{ type: 'sma_cross', params: { fast: [3, 5, 8], slow: { min: 10, max: 20, step: 5 } } }],
+  };
+
+  it('extracts ranges by path', () => {
+    expect(extractParamRanges(rawDsl)).toEqual([
+      { path: 'rules.0.params.fast', values: [3, 5, 8] },
+      { path: 'rules.0.params.slow', values: [10, 15, 20] },
+    ]);
+    expect(extractParamRanges({ risk: { stopLossPct: { min: 0.5, max: 1, step: 0.1 } } })[0].values).toEqual([
+      0.5, 0.6, 0.7, 0.8, 0.9, 1,
+    ]);
+  });
+
+  it('leaves list-valued DSL fields alone', () => {
+    const dimensions = extractParamRanges({
+      ...rawDsl,
+      filters: [
+        { type: 'day_of_week', days: [1, 2, 3] },
+        { type: 'before_date', dates: ['2024-03-01'], days: [2, 5] },
+        { type: 'regime', ticker: 'SPY', period: { min: 100, max: 200, step: 100 } },
+      ],
+      scaling: { maxUnits: [1, 2], exitFractions: [0.5, 0.5] },
+      entry: { all: [{ left: 'close', op: '>', right: { ind: 'sma', period: [20, 50] } }] },
+    });
+
+    expect(dimensions.map((d) => d.path)).toEqual([
+      'rules.0.params.fast',
+      'rules.0.params.slow',
+      'filters.1.days',
+      'filters.2.period',
+      'scaling.maxUnits',
+      'entry.all.0.right.period',
+    ]);
+  });
+
+  it('keeps filters and scaling intact in every combination', () => {
+    const sweep = runParameterSweep(
+      {
+        ...rawDsl,
+        filters: [{ type: 'day_of_week', days: [1, 2, 3] }],
+        scaling: { maxUnits: 2, exitFractions: [0.5, 0.5] },
+      },
+      rows,
+    );
+
+    expect(sweep.combinations).toBe(9);
+    for (const { dsl } of sweep.results) {
+      expect(dsl.filters).toEqual([{ type: 'day_of_week', days: [1, 2, 3] }]);
+      expect(dsl.scaling).toEqual({ maxUnits: 2, exitFractions: [0.5, 0.5] });
+    }
+  });
+
+  it('expands the cartesian grid', () => {
+    const grid = expandGrid(extractParamRanges(rawDsl));
+
+    expect(grid).toHaveLength(9);
+    expect(grid[0]).toEqual({ 'rules.0.params.fast': 3, 'rules.0.params.slow': 10 });
+  });
+
+  it('ranks every combination by the objective', () => {
+    const sweep = runParameterSweep(rawDsl, rows, { objective: 'totalReturnPct' });
+    const scores = sweep.results.map((r) => r.score!);
+
+    expect(sweep.combinations).toBe(9);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+
+    const best = sweep.results[0];
+    const direct = runBacktest(
+      normaliseDsl({
+        name: 'SMA sweep',
+        rules: [{ type: 'sma_cross', params: { fast: best.params['rules.0.params.fast'], slow: best.params['rules.0.params.slow'] } }],
+      }),
+      rows,
+    );
+    expect(best.stats.totalReturnPct).toBeCloseTo(direct.stats.totalReturnPct, 10);
+  });
+
+  it('rejects grids above the combination cap', () => {
+    expect(() => runParameterSweep(rawDsl, rows, { maxCombinations: 8 })).toThrow('9 combinations');
+    // Counted without expanding the range.
+    const huge = { rules: [{ type: 'sma_cross', params: { fast: { min: 1, max: 1e12 }, slow: 20 } }] };
+    expect(() => runParameterSweep(huge, rows)).toThrow('1000000000000 combinations');
+  });
+
+  it('ranks drawdown ascending and undefined scores last', () => {
+    const ranked = rankRows([{ score: 5 }, { score: null }, { score: 2 }], 'maxDrawdownPct');
+
+    expect(ranked.map((r) => r.score)).toEqual([2, 5, null]);
+  });
+});
@@ -0,0 +1,104 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { hedgeRatios, normalisePairs, olsSlope, runPairsBacktest, zScores } from '../lib/pairs';
+import { barsFromCloses } from './fixtures';
+
+describe('Pairs trading', () => {
+  // A tracks twice B, then jumps away from it on day 8 and snaps back on day 9.
+  const x = [10, 11, 12, 11, 10, 11, 12, 11, 10, 11, 12, 11];
+  const noise = [0, 0.1, -0.1, 0, 0.1, -0.1, 0, 3, 1, 0, 0.1, -0.1];
+  const y = x.map((v, i) => 2 * v + noise[i]);
+  const rowsA = barsFromCloses(y, { ticker: 'A' });
+  const rowsB = barsFromCloses(x, { ticker: 'B' });
+  const config = normalisePairs({ hedge: 'static', zLookback: 5, entryZ: 1.5, exitZ: 0.5, fill: 'same_close' });
+
+  it('fits hedge ratios by OLS', () => {
+    expect(olsSlope([3, 5, 7, 9], [1, 2, 3, 4])).toBeCloseTo(2, 12);
+    expect(olsSlope([1, 2, 3], [5, 5, 5])).toBeNaN();
+
+    const rolling = hedgeRatios([3, 5, 7, 10], [1, 2, 3, 4], { method: 'rolling', lookback: 3 });
+    expect(rolling[0]).toBeNaN();
+    expect(rolling[1]).toBeNaN();
+    expect(rolling[2]).toBeCloseTo(2, 12);
+    expect(rolling[3]).toBeCloseTo(2.5, 12);
+  });
+
+  it('computes a rolling z-score', () => {
+    const z = zScores([1, 2, 3, 4, 10], 3);
+    expect(z[1]).toBeNaN();
+    expect(z[2]).toBeCloseTo(1, 12);
+    // Window [3, 4, 10]: mean 17/3, sample stdev sqrt(43/3).
+    expect(z[4]).toBeCloseTo((10 - 17 / 3) / Math.sqrt(43 / 3), 12);
+    expect(zScores([5, 5, 5], 3)[2]).toBeNaN();
+  });
+
+  it('sells the spread when its z-score is stretched and buys it back on reversion', () => {
+    const result = runPairsBacktest(config, rowsA, rowsB);
+    const [a, b] = result.trades;
+
+    expect(result.tickers).toEqual(['A', 'B']);
+    expect(result.zscore[7]).toBeGreaterThan(1.5);
+    expect(a).toMatchObject({ ticker: 'A', side: 'short', entryIdx: 7, exitIdx: 8, entryPrice: 25, exitPrice: 21, exitReason: 'signal' });
+    expect(b).toMatchObject({ ticker: 'B', side: 'long', entryIdx: 7, exitIdx: 8, entryPrice: 11, exitPrice: 10 });
+    expect(b.quantity / a.quantity).toBeCloseTo(result.hedgeRatio[7], 10);
+    expect(a.notional + b.notional).toBeCloseTo(100_000, 6);
+
+    const profit = a.quantity * 4 - b.quantity * 1;
+    expect(result.equity[7]).toBeCloseTo(1, 10);
+    expect(result.equity.at(-1)).toBeCloseTo(1 + profit / 100_000, 10);
+    expect(result.stats.trades).toBe(1);
+    expect(result.stats.avgTradePct).toBeCloseTo((100 * profit) / 100_000, 8);
+  });
+
+  it('fills both legs on the next bar and drops orders signalled on the last bar', () => {
+    const result = runPairsBacktest({ ...config, fill: 'next_open' }, rowsA, rowsB);
+
+    expect(result.trades.map((t) => [t.ticker, t.side, t.entryIdx, t.exitIdx])).toEqual([
+      ['A', 'short', 8, 9],
+      ['B', 'long', 8, 9],
+    ]);
+  });
+
+  it('trades negatively correlated pairs with both legs on one side, fixed fees included', () => {
+    // A dips away from -2 x B on day 8, so the spread A + 2B is bought: long both legs.
+    const withFees = { ...config, costs: { commission: 50 } };
+    const negA = barsFromCloses(x.map((v, i) => 2 * v - noise[i]), { ticker: 'A' });
+    const negB = barsFromCloses(x.map((v) => 40 - v), { ticker: 'B' });
+    const result = runPairsBacktest(withFees, negA, negB);
+    const [a, b] = result.trades;
+
+    expect(result.hedgeRatio[7]).toBeLessThan(0);
+    expect(result.skipped).toEqual([]);
+    expect(a).toMatchObject({ ticker: 'A', side: 'long', entryIdx: 7, exitIdx: 8 });
+    expect(b).toMatchObject({ ticker: 'B', side: 'long', entryIdx: 7, exitIdx: 8 });
+    expect(b.quantity / a.quantity).toBeCloseTo(-result.hedgeRatio[7], 10);
+    // Both legs' notional plus both commissions use exactly the cash on hand.
+    expect(a.notional + b.notional + 2 * 50).toBeCloseTo(100_000, 6);
+    expect(result.equity[7]).toBeCloseTo((100_000 - 100) / 100_000, 10);
+  });
+
+  it('reports entries it cannot fill', () => {
+    const result = runPairsBacktest({ ...config, capital: 100, costs: { commission: 60 } }, rowsA, rowsB);
+
+    expect(result.trades).toEqual([]);
+    expect(result.skipped).toEqual([{ date: '2024-01-08', reason: 'insufficient cash' }]);
+  });
+
+  it('only trades on dates both tickers share', () => {
+    const result = runPairsBacktest(config, rowsA, rowsB.filter((_, i) => i !== 3));
+    expect(result.dates).toHaveLength(x.length - 1);
+    expect(result.dates).not.toContain('2024-01-04');
+  });
+
+  it('normalises the configuration', () => {
+    expect(normalisePairs({ hedge: { method: 'rolling', lookback: 30 }, entryZ: 2.5, exitZ: 5, stopZ: 2, fill: 'bogus' })).toEqual({
+      name: 'Pairs',
+      hedge: { method: 'rolling', lookback: 30 },
+      zLookback: 20,
+      entryZ: 2.5,
+      exitZ: 2.5,
+      grossExposure: 1,
+      fill: 'next_open',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { normaliseAllocation, runPortfolioBacktest } from '../lib/portfolio';
+import type { StrategyDSL } from '../lib/strategy-engine';
+import { barsFromCloses } from './fixtures';
+
+describe('Portfolio backtest', () => {
+  const strategy: StrategyDSL = {
+    name: 'SMA portfolio',
+    fill: 'same_close',
+    capital: 100_000,
+    rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_above', exit: 'fast_below' } }],
+  };
+  // Both tickers enter on day 3; B exits on day 5 while A is still held.
+  const series = {
+    A: barsFromCloses([10, 9, 10, 11, 12], { ticker: 'A' }),
+    B: barsFromCloses([20, 19, 20, 22, 21], { ticker: 'B' }),
+  };
+
+  it('splits a shared cash balance equally across tickers', () => {
+    const result = runPortfolioBacktest(strategy, series);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ ticker: 'B', quantity: 2500, entryIdx: 2, exitIdx: 4, exitPrice: 21 });
+    expect(result.equity.at(-1)).toBeCloseTo(1.125, 10);
+    expect(result.stats.totalReturnPct).toBeCloseTo(12.5, 10);
+  });
+
+  it('fills queued orders at the next open', () => {
+    const result = runPortfolioBacktest({ ...strategy, fill: 'next_open' }, series);
+    const byTicker = Object.fromEntries(result.contributions.map((c) => [c.ticker, c]));
+
+    expect(result.fill).toBe('next_open');
+    // Entries signalled on day 3 fill on day 4; B's exit on the last day has no bar left to fill on.
+    expect(result.trades).toHaveLength(0);
+    expect(byTicker.A.contributionPct).toBeCloseTo(100 * (50_000 / 11) / 100_000, 10);
+    expect(byTicker.B.contributionPct).toBeCloseTo(-100 * (50_000 / 22) / 100_000, 10);
+  });
+
+  it('attributes the portfolio return to tickers', () => {
+    const result = runPortfolioBacktest(strategy, series);
+    const byTicker = Object.fromEntries(result.contributions.map((c) => [c.ticker, c]));
+
+    expect(byTicker.A.contributionPct).toBeCloseTo(10, 10);
+    expect(byTicker.B.contributionPct).toBeCloseTo(2.5, 10);
+    expect(byTicker.B.trades).toBe(1);
+  });
+
+  it('reports trade returns on the capital committed, fees included', () => {
+    const result = runPortfolioBacktest({ ...strategy, costs: { commission: 10, commissionBps: 10 } }, series);
+    const pnlB = result.contributions.find((c) => c.ticker === 'B')!.pnl;
+
+    // B's 50,000 budget is spent on notional plus the entry fee.
+    expect(result.trades[0].pnl).toBeCloseTo(pnlB / 50_000, 10);
+    expect(result.trades[0].weight).toBeCloseTo(0.5, 10);
+  });
+
+  it('applies holding rules per ticker', () => {
+    const rising = { A: barsFromCloses([10, 9, 10, 11, 12, 13], { ticker: 'A' }) };
+    expect(runPortfolioBacktest(strategy, rising).trades).toHaveLength(0);
+
+    const result = runPortfolioBacktest({ ...strategy, holding: { maxBars: 2 } }, rising);
+    expect(result.trades).toEqual([
+      expect.objectContaining({ ticker: 'A', entryIdx: 2, exitIdx: 4, exitPrice: 12, exitReason: 'time_exit' }),
+    ]);
+  });
+
+  it('skips entries once the position slots are full', () => {
+    const result = runPortfolioBacktest(strategy, series, { weighting: 'equal', maxPositions: 1 });
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.equity.at(-1)).toBeCloseTo(1.2, 10);
+    expect(result.contributions.find((c) => c.ticker === 'B')?.pnl).toBe(0);
+  });
+
+  it('caps each position at a percentage of equity', () => {
+    const result = runPortfolioBacktest(strategy, series, { weighting: 'equal', maxPositions: 1, maxPositionPct: 25 });
+
+    expect(result.equity.at(-1)).toBeCloseTo(1.05, 10);
+  });
+
+  it('aligns tickers with different histories on a common date index', () => {
+    const result = runPortfolioBacktest(strategy, { A: series.A, C: barsFromCloses([5, 4, 5], { ticker: 'C', start: '2024-01-03' }) });
+
+    expect(result.dates).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05']);
+    expect(result.equity).toHaveLength(5);
+  });
+
+  it('sizes ATR stops from the signal bar under next-bar fills', () => {
+    const rows = barsFromCloses([10, 9, 10, 10, 9], { ticker: 'A', range: 0.5 });
+    // The fill bar's wide range would lift its ATR(2) to 3.3375; the signal bar's is 1.375.
+    Object.assign(rows[3], { high: 14, low: 8.7 });
+    Object.assign(rows[4], { high: 9.2, low: 8.6 });
+    const result = runPortfolioBacktest({ ...strategy, fill: 'next_open', risk: { atrStop: { period: 2, multiple: 1 } } }, { A: rows });
+
+    expect(result.trades[0]).toMatchObject({ entryIdx: 3, exitIdx: 4, exitPrice: 8.625, exitReason: 'atr_stop' });
+  });
+
+  it('normalises allocation options', () => {
+    expect(normaliseAllocation(true)).toEqual({ weighting: 'equal' });
+    expect(normaliseAllocation({ maxPositions: '3.7', maxPositionPct: 250 })).toEqual({
+      weighting: 'equal',
+      maxPositions: 3,
+      maxPositionPct: 100,
+    });
+  });
+});
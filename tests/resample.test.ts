@@ -0,0 +1,82 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { resampleRows, timeframeView } from '../lib/resample';
+import { computeSignals, normaliseDsl } from '../lib/strategy-engine';
+import { bar, barsFromCloses } from './fixtures';
+
+// Three Monday-to-Friday weeks starting 2024-01-01, closing at 14, 10 and 10.
+const closes = [10, 11, 12, 13, 14, 14, 13, 12, 11, 10, 10, 10, 10, 10, 10];
+const rows = barsFromCloses(closes, {
+  dates: closes.map((_, i) => `2024-01-${String(Math.floor(i / 5) * 7 + (i % 5) + 1).padStart(2, '0')}`),
+});
+
+describe('Resampling', () => {
+  it('aggregates weekly bars with OHLCV semantics', () => {
+    const weekly = resampleRows(
+      [
+        bar('2024-01-04', 10, { open: 9, high: 12, volume: 100, vwap: 10, transactions: 5 }),
+        bar('2024-01-05', 11, { low: 8, volume: 300, vwap: 12, transactions: 7 }),
+        bar('2024-01-08', 12, { volume: 100, vwap: 12 }),
+      ],
+      'weekly',
+    );
+    expect(weekly).toHaveLength(2);
+    expect(weekly[0]).toEqual({
+      ticker: 'TEST',
+      date: '2024-01-05',
+      timestamp: Date.parse('2024-01-05'),
+      open: 9,
+      high: 12,
+      low: 8,
+      close: 11,
+      volume: 400,
+      vwap: 11.5,
+      transactions: 12,
+    });
+    expect(weekly[1]).toMatchObject({ date: '2024-01-08', open: 12, close: 12, volume: 100 });
+    expect(weekly[1]).not.toHaveProperty('transactions');
+  });
+
+  it('groups calendar months', () => {
+    const monthly = resampleRows([bar('2024-01-30', 1), bar('2024-01-31', 2), bar('2024-02-01', 3)], 'monthly');
+    expect(monthly.map((b) => [b.date, b.open, b.close])).toEqual([['2024-01-31', 1, 2], ['2024-02-01', 3, 3]]);
+  });
+
+  it('only shows a period from the first bar after it completes', () => {
+    const { bars, align } = timeframeView(rows, 'weekly');
+    expect(bars.map((b) => b.close)).toEqual([14, 10, 10]);
+    expect(align(bars.map((b) => b.close))).toEqual([...new Array(5).fill(NaN), ...new Array(5).fill(14), ...new Array(5).fill(10)]);
+    expect(timeframeView(rows, 'weekly')).toBe(timeframeView(rows, 'weekly'));
+  });
+});
+
+describe('Higher-timeframe rules', () => {
+  it('holds a weekly condition through the following week', () => {
+    const dsl = normaliseDsl({ rules: [], entry: { left: 'close', op: '>', right: 12, timeframe: 'weekly' } });
+    expect(dsl.entry).toMatchObject({ type: 'compare', timeframe: 'weekly' });
+    // Week one closes at 14, but that is only known once the week is over.
+    expect(computeSignals(dsl, rows).enter.long).toEqual([...new Array(5).fill(false), ...new Array(5).fill(true), ...new Array(5).fill(false)]);
+  });
+
+  it('fires a weekly cross once, on the first bar after the crossing week', () => {
+    const dsl = normaliseDsl({ rules: [], entry: { left: 'close', op: 'crossesBelow', right: 12, timeframe: 'weekly' } });
+    const enter = computeSignals(dsl, rows).enter.long;
+    expect(enter.flatMap((value, i) => (value ? [i] : []))).toEqual([10]);
+  });
+
+  it('combines with daily rules and accepts a timeframe on the built-in rule types', () => {
+    const dsl = normaliseDsl({
+      rules: [],
+      entry: {
+        all: [
+          { left: 'close', op: '>', right: 12, timeframe: 'weekly' },
+          { left: 'close', op: '<', right: 12 },
+        ],
+      },
+    });
+    expect(computeSignals(dsl, rows).enter.long.flatMap((value, i) => (value ? [i] : []))).toEqual([8, 9]);
+    const rsi = normaliseDsl({ rules: [{ type: 'rsi_threshold', params: { period: 2, timeframe: 'monthly' } }] });
+    expect(rsi.rules[0]).toMatchObject({ type: 'rsi_threshold', timeframe: 'monthly' });
+    expect(normaliseDsl({ rules: [{ type: 'sma_cross', params: {}, timeframe: 'daily' }] }).rules[0]).not.toHaveProperty('timeframe');
+  });
+});
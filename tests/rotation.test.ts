@@ -0,0 +1,95 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { normaliseRotation, runRotationBacktest } from '../lib/rotation';
+import { periodKey } from '../lib/resample';
+import { barsFromCloses } from './fixtures';
+
+const DATES = ['2024-01-30', '2024-01-31', '2024-02-01', '2024-02-02', '2024-03-01', '2024-03-04'];
+
+describe('Rotation backtest', () => {
+  // A leads into February, B into March.
+  const series = {
+    A: barsFromCloses([10, 11, 12, 12, 12, 12], { ticker: 'A', dates: DATES }),
+    B: barsFromCloses([10, 10, 10, 11, 15, 18], { ticker: 'B', dates: DATES }),
+  };
+  const config = normaliseRotation({ lookback: 2, top: 1, fill: 'same_close' });
+
+  it('holds the top-ranked ticker and rotates at each new month', () => {
+    const result = runRotationBacktest(config, series);
+
+    expect(result.rebalances.map((r) => [r.date, r.holdings.map((h) => h.ticker)])).toEqual([
+      ['2024-01-30', []],
+      ['2024-02-01', ['A']],
+      ['2024-03-01', ['B']],
+    ]);
+    expect(result.rebalances[1].holdings[0].weight).toBe(1);
+    expect(result.rebalances[1].holdings[0].score).toBeCloseTo(0.2, 12);
+    expect(result.rebalances[1].holdings[0].shares).toBeCloseTo(100_000 / 12, 8);
+    expect(result.rebalances[2].holdings[0].shares).toBeCloseTo(100_000 / 15, 8);
+    // Selling A and buying B trades twice the equity.
+    expect(result.rebalances[2].turnoverPct).toBeCloseTo(200, 8);
+    expect(result.equity.at(-1)).toBeCloseTo(1.2, 10);
+    expect(result.stats.rebalances).toBe(3);
+  });
+
+  it('keeps the share of tickers below minScore in cash', () => {
+    const result = runRotationBacktest({ ...config, top: 2, minScore: 0.1 }, series);
+
+    expect(result.rebalances[1].holdings).toEqual([expect.objectContaining({ ticker: 'A', weight: 0.5 })]);
+    expect(result.rebalances[2].holdings).toEqual([expect.objectContaining({ ticker: 'B', weight: 0.5 })]);
+    // Half in B from 15 to 18.
+    expect(result.equity.at(-1)).toBeCloseTo(1.1, 10);
+  });
+
+  it('ranks on history before the start date and fills on the next bar', () => {
+    const result = runRotationBacktest({ ...config, fill: 'next_open' }, series, { startDate: '2024-02-01' });
+
+    expect(result.dates[0]).toBe('2024-02-01');
+    expect(result.rebalances.map((r) => [r.date, r.filledDate])).toEqual([
+      ['2024-02-01', '2024-02-02'],
+      ['2024-03-01', '2024-03-04'],
+    ]);
+    // B is bought at 18 on the last bar.
+    expect(result.equity.at(-1)).toBeCloseTo(1, 10);
+  });
+
+  it('applies costs to each trade', () => {
+    const result = runRotationBacktest({ ...config, costs: { commission: 10, commissionBps: 0 } }, series);
+    expect(result.rebalances.map((r) => r.fees)).toEqual([0, 10, 20]);
+  });
+
+  it('skips rebalance trades below minTradePct of equity', () => {
+    // Both tickers stay held and drift apart by a few hundredths of a percent of equity.
+    const drifting = { A: barsFromCloses([10, 11, 12, 12.01, 12.02, 12.02], { ticker: 'A', dates: DATES }), B: barsFromCloses([10, 10.5, 11, 11, 11.01, 11.01], { ticker: 'B', dates: DATES }) };
+    const costs = { commission: 10, commissionBps: 0 };
+
+    const result = runRotationBacktest({ ...config, top: 2, costs }, drifting);
+    expect(result.rebalances.map((r) => r.fees)).toEqual([0, 20, 0]);
+    expect(result.rebalances[2].turnoverPct).toBe(0);
+
+    const everyTrade = runRotationBacktest({ ...config, top: 2, costs, minTradePct: 0 }, drifting);
+    expect(everyTrade.rebalances.map((r) => r.fees)).toEqual([0, 20, 20]);
+  });
+
+  it('keys periods by week, month and quarter', () => {
+    expect(periodKey('2024-01-03', 'weekly')).toBe('2024-01-01');
+    expect(periodKey('2024-01-07', 'weekly')).toBe('2024-01-01');
+    expect(periodKey('2024-01-08', 'weekly')).toBe('2024-01-08');
+    expect(periodKey('2024-05-20', 'monthly')).toBe('2024-05');
+    expect(periodKey('2024-05-20', 'quarterly')).toBe('2024-Q2');
+  });
+
+  it('normalises the configuration', () => {
+    expect(normaliseRotation({ frequency: 'weekly', metric: 'sharpe', lookback: 1, top: '3', weighting: 'inverse_volatility', minScore: 0, minTradePct: '0.5' })).toEqual({
+      name: 'Rotation',
+      frequency: 'weekly',
+      metric: 'sharpe',
+      lookback: 2,
+      top: 3,
+      weighting: 'inverse_volatility',
+      minScore: 0,
+      minTradePct: 0.5,
+      fill: 'next_open',
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { kellyFraction, normaliseSizing, positionBudget } from '../lib/sizing';
+import { normaliseDsl, runBacktest, type StrategyDSL } from '../lib/strategy-engine';
+import { barsFromCloses } from './fixtures';
+
+describe('Position sizing', () => {
+  // Enters long at 10 on bar 2 and exits at 11 on bar 5.
+  const rows = barsFromCloses([10, 9, 10, 11, 12, 11, 10]);
+  const strategy: StrategyDSL = {
+    name: 'Sized',
+    fill: 'same_close',
+    capital: 100_000,
+    rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_above', exit: 'fast_below' } }],
+  };
+
+  it('commits a fixed fraction of equity and tracks cash, shares and exposure', () => {
+    const result = runBacktest({ ...strategy, sizing: { type: 'fixed_fraction', fraction: 0.5 } }, rows);
+
+    expect(result.trades[0]).toMatchObject({ quantity: 5000, notional: 50_000, entryIdx: 2, exitIdx: 5 });
+    expect(result.trades[0].pnl).toBeCloseTo(0.1, 10);
+    expect(result.cash[2]).toBeCloseTo(50_000, 6);
+    expect(result.shares[3]).toBe(5000);
+    expect(result.exposure[2]).toBeCloseTo(0.5, 10);
+    expect(result.equity[4]).toBeCloseTo(1.1, 10);
+    expect(result.equity.at(-1)).toBeCloseTo(1.05, 10);
+    expect(result.stats.grossReturnPct).toBeCloseTo(5, 10);
+    expect(result.shares.at(-1)).toBe(0);
+  });
+
+  it('buys a fixed number of shares', () => {
+    const result = runBacktest({ ...strategy, sizing: { type: 'fixed_shares', shares: 100 } }, rows);
+
+    expect(result.trades[0]).toMatchObject({ quantity: 100, notional: 1000 });
+    expect(result.equity.at(-1)).toBeCloseTo(1.001, 10);
+  });
+
+  it('keeps full-equity sizing as the default', () => {
+    const result = runBacktest(strategy, rows);
+
+    expect(result.trades[0]).toMatchObject({ quantity: 10_000, notional: 100_000 });
+    expect(result.exposure[3]).toBeCloseTo(1, 10);
+    expect(result.stats.avgExposurePct).toBeCloseTo((100 * 3) / 7, 10);
+  });
+
+  it('targets volatility and caps the position', () => {
+    const sizing = { type: 'volatility' as const, measure: 'atr' as const, period: 14, riskPct: 1, maxFraction: 1 };
+    expect(positionBudget(sizing, { equity: 100_000, price: 50, volatility: 2, closedPnls: [] })).toBe(25_000);
+    expect(positionBudget({ ...sizing, maxFraction: 0.2 }, { equity: 100_000, price: 50, volatility: 2, closedPnls: [] })).toBe(20_000);
+    expect(positionBudget(sizing, { equity: 100_000, price: 50, volatility: Number.NaN, closedPnls: [] })).toBe(0);
+  });
+
+  it('sizes by a capped Kelly fraction once enough trades have closed', () => {
+    const pnls = [0.1, -0.05, 0.1, -0.05];
+    expect(kellyFraction(pnls)).toBeCloseTo(0.25, 10);
+
+    const sizing = { type: 'kelly' as const, multiplier: 0.5, maxFraction: 0.2, minTrades: 4, initialFraction: 0.05 };
+    expect(positionBudget(sizing, { equity: 100_000, price: 10, closedPnls: pnls })).toBeCloseTo(12_500, 6);
+    expect(positionBudget(sizing, { equity: 100_000, price: 10, closedPnls: [-0.1, -0.1, 0.01, -0.1] })).toBe(0);
+  });
+
+  it('commits only the initial fraction until minTrades trades have closed', () => {
+    const sizing = { type: 'kelly' as const, multiplier: 0.5, maxFraction: 0.2, minTrades: 4, initialFraction: 0.05 };
+    expect(positionBudget(sizing, { equity: 100_000, price: 10, closedPnls: [] })).toBeCloseTo(5_000, 6);
+    expect(positionBudget(sizing, { equity: 100_000, price: 10, closedPnls: [0.1, 0.1, 0.1] })).toBeCloseTo(5_000, 6);
+    // Never above the cap.
+    expect(positionBudget({ ...sizing, maxFraction: 0.02 }, { equity: 100_000, price: 10, closedPnls: [] })).toBeCloseTo(2_000, 6);
+    expect(normaliseSizing({ type: 'kelly' })).toMatchObject({ initialFraction: 0.05 });
+  });
+
+  it('normalises sizing settings', () => {
+    expect(normaliseSizing({ type: 'fixed_fraction', fraction: '0.25' })).toEqual({ type: 'fixed_fraction', fraction: 0.25 });
+    expect(normaliseSizing({ type: 'volatility', measure: 'stdev' })).toEqual({
+      type: 'volatility',
+      measure: 'stdev',
+      period: 20,
+      riskPct: 1,
+      maxFraction: 1,
+    });
+    expect(normaliseSizing({ type: 'martingale' })).toBeUndefined();
+    expect(normaliseDsl({ ...strategy, sizing: { type: 'kelly', maxFraction: 3 } }).sizing).toEqual({
+      type: 'kelly',
+      multiplier: 0.5,
+      maxFraction: 1,
+      minTrades: 10,
+      initialFraction: 0.05,
+    });
+  });
+});
@@ -2,6 +2,7 @@
 import { describe, expect, it } from 'vitest';
 import { normaliseDsl, runBacktest, type StrategyDSL } from '../lib/strategy-engine';
 import type { Row } from '../types/row';
+import { bar, barsFromCloses } from './fixtures';
 
 describe('Strategy Engine', () => {
   const mockData: Row[] = [
@@ -102,6 +103,8 @@ describe('Strategy Engine', () => {
       expect(result.stats).toHaveProperty('trades');
       expect(result.stats).toHaveProperty('winRatePct');
       expect(result.stats).toHaveProperty('avgTradePct');
+      expect(result.stats).toHaveProperty('sharpe');
+      expect(result.stats).toHaveProperty('maxDrawdownPct');
     });
 
     it('should handle RSI strategy', () => {
@@ -149,4 +152,418 @@ describe('Strategy Engine', () => {
       expect(result.stats.trades).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('short selling', () => {
+    const rows = barsFromCloses([10, 11, 12, 11, 10, 9, 10, 11]);
+
+    it('infers a short direction when every rule enters short', () => {
+      const dsl = normaliseDsl({
+        rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_below', exit: 'fast_above' } }],
+      });
+      expect(dsl.direction).toBe('short');
+    });
+
+    it('profits from a falling market on the short side', () => {
+      const strategy: StrategyDSL = {
+        name: 'Short SMA',
+        fill: 'same_close',
+        direction: 'short',
+        rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_below', exit: 'fast_above' } }],
+      };
+
+      const result = runBacktest(strategy, rows);
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({ side: 'short', entryIdx: 3, exitIdx: 6, entryPrice: 11, exitPrice: 10 });
+      expect(result.trades[0].pnl).toBeCloseTo(1 / 11, 10);
+      expect(result.equity[5]).toBeCloseTo(1 + 2 / 11, 10);
+    });
+
+    it('ignores short entries for a long-only strategy', () => {
+      const strategy: StrategyDSL = {
+        name: 'Long only',
+        fill: 'same_close',
+        direction: 'long',
+        rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_below', exit: 'fast_above' } }],
+      };
+
+      expect(runBacktest(strategy, rows).trades).toHaveLength(0);
+    });
+
+    it('covers shorts when a short-entering rule names no exit', () => {
+      const cross = normaliseDsl({ fill: 'same_close', rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_below' } }] });
+      expect(cross.direction).toBe('short');
+      expect(runBacktest(cross, rows).trades).toEqual([
+        expect.objectContaining({ side: 'short', entryIdx: 3, exitIdx: 6, entryPrice: 11, exitPrice: 10 }),
+      ]);
+
+      const rsi = normaliseDsl({ fill: 'same_close', rules: [{ type: 'rsi_threshold', params: { period: 2, enter: 'short' } }] });
+      expect(rsi.direction).toBe('short');
+      expect(runBacktest(rsi, barsFromCloses([10, 11, 12, 13, 12, 11, 10, 9, 10])).trades).toEqual([
+        expect.objectContaining({ side: 'short', exitReason: 'signal' }),
+      ]);
+    });
+
+    it('flips from short to long on opposite signals when direction is both', () => {
+      const strategy: StrategyDSL = {
+        name: 'Stop and reverse',
+        fill: 'same_close',
+        direction: 'both',
+        rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_above', exit: 'fast_below' } }],
+      };
+
+      const result = runBacktest(strategy, rows);
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({ side: 'short', entryIdx: 3, exitIdx: 6 });
+      expect(result.equity[7]).toBeCloseTo((1 + 1 / 11) * 1.1, 10);
+    });
+  });
+
+  describe('transaction costs', () => {
+    const closes = [10, 9, 10, 11, 12, 11, 10];
+    const rule = { type: 'sma_cross' as const, params: { fast: 1, slow: 2, enter: 'fast_above' as const, exit: 'fast_below' as const } };
+
+    it('reports identical gross and net returns without costs', () => {
+      const result = runBacktest({ name: 'No costs', fill: 'same_close', rules: [rule] }, barsFromCloses(closes));
+
+      expect(result.trades[0]).toMatchObject({ entryIdx: 2, exitIdx: 5, entryPrice: 10, exitPrice: 11 });
+      expect(result.stats.grossReturnPct).toBeCloseTo(10, 10);
+      expect(result.stats.netReturnPct).toBeCloseTo(10, 10);
+    });
+
+    it('applies commissions and bps slippage to each fill', () => {
+      const result = runBacktest(
+        {
+          name: 'Costs',
+          fill: 'same_close',
+          capital: 10_000,
+          costs: { commission: 10, commissionBps: 10, slippage: { type: 'bps', value: 50 } },
+          rules: [rule],
+        },
+        barsFromCloses(closes),
+      );
+
+      const invested = 0.999 - 0.001;
+      const expected = invested * (10.945 / 10.05) * 0.999 - 0.001;
+      expect(result.trades[0].entryPrice).toBeCloseTo(10.05, 10);
+      expect(result.trades[0].exitPrice).toBeCloseTo(10.945, 10);
+      expect(result.trades[0].pnl).toBeCloseTo(expected - 1, 10);
+      expect(result.trades[0].grossPnl).toBeCloseTo(0.1, 10);
+      expect(result.stats.grossReturnPct).toBeCloseTo(10, 10);
+      expect(result.stats.netReturnPct).toBeCloseTo((expected - 1) * 100, 10);
+    });
+
+    it('derives range slippage from the bar high-low range', () => {
+      const result = runBacktest(
+        { name: 'Range slippage', fill: 'same_close', costs: { slippage: { type: 'range', fraction: 0.25 } }, rules: [rule] },
+        barsFromCloses(closes, { range: 1 }),
+      );
+
+      expect(result.trades[0].entryPrice).toBeCloseTo(10.5, 10);
+      expect(result.trades[0].exitPrice).toBeCloseTo(10.5, 10);
+    });
+
+    it('normalises cost settings, treating a bare number as bps slippage', () => {
+      const dsl = normaliseDsl({ costs: { commission: '5', commissionBps: -3, slippage: 20 }, rules: [rule] });
+
+      expect(dsl.costs).toEqual({ commission: 5, commissionBps: 0, slippage: { type: 'bps', value: 20 } });
+      expect(dsl.capital).toBe(100_000);
+    });
+  });
+
+  describe('risk exits', () => {
+    const rule = { type: 'sma_cross' as const, params: { fast: 1, slow: 2, enter: 'fast_above' as const, exit: 'fast_below' as const } };
+    // Enters long at the close of bar 2 (price 10); later bars are supplied per test.
+    const withBars = (...bars: [number, number, number, number][]): Row[] => {
+      const rows = barsFromCloses([10, 9, 10]);
+      bars.forEach(([open, high, low, close], i) => {
+        const date = `2024-03-${String(i + 1).padStart(2, '0')}`;
+        rows.push(bar(date, close, { open, high, low }));
+      });
+      return rows;
+    };
+
+    it('exits at the stop level when the low touches it', () => {
+      const result = runBacktest(
+        { name: 'Stop', fill: 'same_close', risk: { stopLossPct: 5 }, rules: [rule] },
+        withBars([10, 10.2, 9.4, 9.8], [9.8, 10, 9.7, 9.9]),
+      );
+
+      expect(result.trades[0]).toMatchObject({ entryIdx: 2, exitIdx: 3, exitPrice: 9.5, exitReason: 'stop_loss' });
+      expect(result.equity[4]).toBeCloseTo(0.95, 10);
+    });
+
+    it('fills at the open when the bar gaps through the stop', () => {
+      const result = runBacktest({ name: 'Gap', fill: 'same_close', risk: { stopLossPct: 5 }, rules: [rule] }, withBars([9, 9.2, 8.8, 9.1]));
+
+      expect(result.trades[0]).toMatchObject({ exitPrice: 9, exitReason: 'stop_loss' });
+    });
+
+    it('takes profit at the target', () => {
+      const result = runBacktest({ name: 'Target', fill: 'same_close', risk: { takeProfitPct: 10 }, rules: [rule] }, withBars([10.5, 11.2, 10.4, 11.1]));
+
+      expect(result.trades[0]).toMatchObject({ exitPrice: 11, exitReason: 'take_profit' });
+      expect(result.trades[0].pnl).toBeCloseTo(0.1, 10);
+    });
+
+    it('assumes the stop was hit first when a bar touches both levels', () => {
+      const result = runBacktest(
+        { name: 'Both', fill: 'same_close', risk: { stopLossPct: 5, takeProfitPct: 10 }, rules: [rule] },
+        withBars([10, 11.5, 9.4, 10.5]),
+      );
+
+      expect(result.trades[0]).toMatchObject({ exitPrice: 9.5, exitReason: 'stop_loss' });
+    });
+
+    it('trails the stop behind the highest high since entry', () => {
+      const result = runBacktest(
+        { name: 'Trail', fill: 'same_close', risk: { trailingStopPct: 10 }, rules: [rule] },
+        withBars([10.2, 12, 11.5, 11.8], [11.5, 11.6, 10.5, 11]),
+      );
+
+      expect(result.trades[0]).toMatchObject({ exitIdx: 4, exitReason: 'trailing_stop' });
+      expect(result.trades[0].exitPrice).toBeCloseTo(10.8, 10);
+    });
+
+    it('places ATR stops above the entry for shorts', () => {
+      const strategy: StrategyDSL = {
+        name: 'ATR short',
+        fill: 'same_close',
+        direction: 'short',
+        risk: { atrStop: { period: 2, multiple: 1 } },
+        rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_below', exit: 'fast_above' } }],
+      };
+      const rows = barsFromCloses([10, 11, 10], { range: 0.5 });
+      rows.push(bar('2024-03-01', 10.2, { open: 10, high: 11.6, low: 9.9 }));
+
+      // Wilder ATR(2) at the entry bar: seed (1 + 1.5) / 2 = 1.25, then (1.25 + 1.5) / 2 = 1.375.
+      const result = runBacktest(strategy, rows);
+      expect(result.trades[0]).toMatchObject({ side: 'short', entryIdx: 2, exitIdx: 3, exitPrice: 11.375, exitReason: 'atr_stop' });
+    });
+
+    it('sizes ATR stops from the signal bar under next-bar fills', () => {
+      const strategy: StrategyDSL = {
+        name: 'ATR next open',
+        fill: 'next_open',
+        risk: { atrStop: { period: 2, multiple: 1 } },
+        rules: [{ type: 'sma_cross', params: { fast: 1, slow: 2, enter: 'fast_above', exit: 'fast_below' } }],
+      };
+      const rows = barsFromCloses([10, 9, 10], { range: 0.5 });
+      // The fill bar's wide range would lift its ATR to 3.3375 and the stop to 6.6625.
+      rows.push(bar('2024-03-01', 10, { high: 14, low: 8.7 }), bar('2024-03-02', 9, { high: 9.2, low: 8.6 }));
+
+      // Wilder ATR(2) at the signal bar is 1.375, so the stop sits at 10 - 1.375.
+      const result = runBacktest(strategy, rows);
+      expect(result.trades[0]).toMatchObject({ entryIdx: 3, exitIdx: 4, exitPrice: 8.625, exitReason: 'atr_stop' });
+    });
+  });
+
+  describe('condition trees', () => {
+    // close = SMA(1) crosses its SMA(2) upward at bars 2 and 6, downward at bar 4.
+    const rows = barsFromCloses([10, 9, 10, 11, 10, 9, 10, 12]);
+    const crossUp = { type: 'sma_cross' as const, params: { fast: 1, slow: 2, enter: 'fast_above' as const, exit: 'fast_below' as const } };
+    // RSI(2) is only at or below 60 on bar 6 among the cross-up bars.
+    const rsiBelow60 = { type: 'rsi_threshold' as const, params: { period: 2, low: 60, enter: 'long' as const } };
+
+    it('requires every branch of an all group', () => {
+      const flat = runBacktest({ name: 'Flat', fill: 'same_close', rules: [crossUp] }, rows);
+      const combined = runBacktest(
+        { name: 'All', fill: 'same_close', rules: [crossUp], entry: { all: [crossUp, rsiBelow60] } },
+        rows,
+      );
+
+      expect(flat.trades.map((t) => t.entryIdx)).toEqual([2]);
+      expect(flat.equity[3]).toBeCloseTo(1.1, 10);
+      // Only the bar-6 cross qualifies; that position is still open at the end.
+      expect(combined.trades).toHaveLength(0);
+      expect(combined.equity[3]).toBe(1);
+      expect(combined.equity[7]).toBeCloseTo(1.2, 10);
+    });
+
+    it('negates a branch with not', () => {
+      const result = runBacktest(
+        { name: 'Not', fill: 'same_close', rules: [crossUp], entry: { all: [crossUp, { not: rsiBelow60 }] } },
+        rows,
+      );
+
+      expect(result.trades.map((t) => t.entryIdx)).toEqual([2]);
+    });
+
+    it('treats any groups like the flat rules array', () => {
+      const flat = runBacktest({ name: 'Flat', fill: 'same_close', rules: [crossUp, rsiBelow60] }, rows);
+      const tree = runBacktest(
+        { name: 'Any', fill: 'same_close', rules: [], entry: { any: [crossUp, rsiBelow60] }, exit: { any: [crossUp, rsiBelow60] } },
+        rows,
+      );
+
+      expect(tree.trades).toEqual(flat.trades);
+    });
+
+    it('normalises nested groups and drops unknown leaves', () => {
+      const dsl = normaliseDsl({
+        entry: { all: [{ type: 'macd_cross', params: {} }, { not: { type: 'rsi_threshold', params: { high: 50 } } }, { type: 'bogus' }] },
+        exit: { any: [] },
+      });
+
+      expect(dsl.rules).toEqual([]);
+      expect(dsl.exit).toBeUndefined();
+      expect(dsl.entry).toMatchObject({ all: [{ type: 'macd_cross' }, { not: { type: 'rsi_threshold', params: { high: 50 } } }] });
+      expect(dsl.direction).toBe('long');
+    });
+  });
+
+  describe('fill policy', () => {
+    // Opens sit 0.5 above the close and VWAP 0.25 above it, so each policy fills at a distinct price.
+    const rows = barsFromCloses([10, 11, 12, 11, 10, 9, 10, 11, 12]).map((row) => ({
+      ...row,
+      open: row.close + 0.5,
+      high: row.close + 0.5,
+      vwap: row.close + 0.25,
+    }));
+    const shortRule = { type: 'sma_cross' as const, params: { fast: 1, slow: 2, enter: 'fast_below' as const, exit: 'fast_above' as const } };
+
+    it('fills at the signal bar close under same_close', () => {
+      const result = runBacktest({ name: 'Same close', direction: 'short', fill: 'same_close', rules: [shortRule] }, rows);
+
+      expect(result.fill).toBe('same_close');
+      expect(result.trades[0]).toMatchObject({ entryIdx: 3, exitIdx: 6, entryPrice: 11, exitPrice: 10 });
+    });
+
+    it('fills on the following bar under the next-bar policies', () => {
+      const run = (fill: StrategyDSL['fill']) =>
+        runBacktest({ name: 'Next bar', direction: 'short', fill, rules: [shortRule] }, rows).trades[0];
+
+      expect(run('next_open')).toMatchObject({ entryIdx: 4, exitIdx: 7, entryPrice: 10.5, exitPrice: 11.5, exitReason: 'signal' });
+      expect(run('next_vwap')).toMatchObject({ entryIdx: 4, exitIdx: 7, entryPrice: 10.25, exitPrice: 11.25 });
+      expect(run('next_close')).toMatchObject({ entryIdx: 4, exitIdx: 7, entryPrice: 10, exitPrice: 11 });
+    });
+
+    it('uses the typical price when a bar has no VWAP', () => {
+      const noVwap = rows.map(({ vwap, ...row }) => row);
+      const trade = runBacktest({ name: 'Typical', direction: 'short', fill: 'next_vwap', rules: [shortRule] }, noVwap).trades[0];
+
+      expect(trade.entryPrice).toBeCloseTo((10.5 + 10 + 10) / 3, 10);
+    });
+
+    it('drops orders signalled on the last bar', () => {
+      const result = runBacktest({ name: 'Late', direction: 'short', fill: 'next_open', rules: [shortRule] }, rows.slice(0, 4));
+
+      expect(result.trades).toHaveLength(0);
+      expect(result.equity.every((value) => value === 1)).toBe(true);
+    });
+
+    it('defaults to next-bar open, normalised or not', () => {
+      expect(normaliseDsl({ rules: [shortRule] }).fill).toBe('next_open');
+      expect(normaliseDsl({ fill: 'next_vwap', rules: [shortRule] }).fill).toBe('next_vwap');
+      expect(normaliseDsl({ fill: 'tomorrow', rules: [shortRule] }).fill).toBe('next_open');
+      expect(runBacktest({ name: 'In code', rules: [shortRule] }, rows).fill).toBe('next_open');
+    });
+  });
+
+  describe('pyramiding and scale-out', () => {
+    // sma_cross(1, 2) crosses up on bars 2 and 4 and down on bars 3 and 6.
+    const rows = barsFromCloses([10, 9, 10, 9.5, 11, 12, 11, 10]);
+    const cross = { type: 'sma_cross' as const, params: { fast: 1, slow: 2, enter: 'fast_above' as const, exit: 'fast_below' as const } };
+
+    it('adds units on repeated entry signals and closes each lot as its own trade', () => {
+      const result = runBacktest(
+        {
+          name: 'Pyramid',
+          fill: 'same_close',
+          sizing: { type: 'fixed_fraction', fraction: 0.25 },
+          scaling: { maxUnits: 2, exitFractions: [] },
+          entry: cross,
+          // Exit on the close dropping below its 4-bar average, which first happens on bar 7.
+          exit: { type: 'sma_cross', params: { fast: 1, slow: 4, exit: 'fast_below' } },
+          rules: [],
+        },
+        rows,
+      );
+
+      const second = (102_500 * 0.25) / 11;
+      const avgCost = (25_000 + 25_625) / (2500 + second);
+      expect(result.trades).toHaveLength(2);
+      expect(result.trades[0]).toMatchObject({ unit: 1, entryIdx: 2, exitIdx: 7, quantity: 2500, entryPrice: 10, exitPrice: 10 });
+      expect(result.trades[1]).toMatchObject({ unit: 2, entryIdx: 4, exitIdx: 7, entryPrice: 11 });
+      expect(result.trades[1].quantity).toBeCloseTo(second, 6);
+      expect(result.trades[1].avgCost).toBeCloseTo(avgCost, 10);
+      expect(result.trades[1].pnl).toBeCloseTo(-1 / 11, 10);
+      expect(result.shares[5]).toBeCloseTo(2500 + second, 6);
+    });
+
+    it('ignores extra entry signals beyond maxUnits', () => {
+      const result = runBacktest(
+        {
+          name: 'Single unit',
+          fill: 'same_close',
+          entry: cross,
+          exit: { type: 'sma_cross', params: { fast: 1, slow: 4, exit: 'fast_below' } },
+          rules: [],
+        },
+        rows,
+      );
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({ unit: 1, entryIdx: 2, exitIdx: 7, quantity: 10_000 });
+    });
+
+    it('scales out on successive exit signals', () => {
+      const result = runBacktest({ name: 'Scale out', fill: 'same_close', scaling: { maxUnits: 1, exitFractions: [0.5] }, rules: [cross] }, rows);
+
+      expect(result.trades).toHaveLength(2);
+      expect(result.trades[0]).toMatchObject({ unit: 1, entryIdx: 2, exitIdx: 3, quantity: 5000, exitPrice: 9.5 });
+      expect(result.trades[1]).toMatchObject({ unit: 1, entryIdx: 2, exitIdx: 6, quantity: 5000, exitPrice: 11 });
+      expect(result.trades[0].pnl).toBeCloseTo(-0.05, 10);
+      expect(result.trades[1].pnl).toBeCloseTo(0.1, 10);
+      expect(result.shares[4]).toBe(5000);
+      expect(result.equity.at(-1)).toBeCloseTo(1.025, 10);
+    });
+
+    it('normalises scaling settings', () => {
+      expect(normaliseDsl({ rules: [cross], scaling: { maxUnits: '3', exitFractions: [0.5, 2, 'x', 0.25] } }).scaling).toEqual({
+        maxUnits: 3,
+        exitFractions: [0.5, 0.25],
+      });
+    });
+  });
+
+  describe('holding rules', () => {
+    const cross = { type: 'sma_cross' as const, params: { fast: 1, slow: 2, enter: 'fast_above' as const, exit: 'fast_below' as const } };
+    const trending = barsFromCloses([10, 9, 10, 11, 12, 13, 14, 15]);
+    // Crosses up on bars 2 and 4, down on bars 3 and 6.
+    const choppy = barsFromCloses([10, 9, 10, 9.5, 11, 12, 11, 10]);
+
+    it('closes positions after maxBars with a time exit', () => {
+      const sameClose = runBacktest({ name: 'Time exit', fill: 'same_close', holding: { maxBars: 2 }, rules: [cross] }, trending);
+      expect(sameClose.trades).toHaveLength(1);
+      expect(sameClose.trades[0]).toMatchObject({ entryIdx: 2, exitIdx: 4, exitPrice: 12, exitReason: 'time_exit' });
+
+      const nextOpen = runBacktest({ name: 'Time exit', fill: 'next_open', holding: { maxBars: 2 }, rules: [cross] }, trending);
+      expect(nextOpen.trades[0]).toMatchObject({ entryIdx: 3, exitIdx: 5, exitReason: 'time_exit' });
+    });
+
+    it('ignores signal exits before minBars', () => {
+      const result = runBacktest({ name: 'Min hold', fill: 'same_close', holding: { minBars: 3 }, rules: [cross] }, choppy);
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toMatchObject({ entryIdx: 2, exitIdx: 6, exitReason: 'signal' });
+    });
+
+    it('waits cooldownBars after an exit before entering again', () => {
+      expect(runBacktest({ name: 'No cooldown', fill: 'same_close', rules: [cross] }, choppy).trades.map((t) => t.entryIdx)).toEqual([2, 4]);
+
+      const result = runBacktest({ name: 'Cooldown', fill: 'same_close', holding: { cooldownBars: 1 }, rules: [cross] }, choppy);
+      expect(result.trades.map((t) => [t.entryIdx, t.exitIdx])).toEqual([[2, 3]]);
+    });
+
+    it('normalises holding rules', () => {
+      expect(normaliseDsl({ rules: [cross], holding: { maxBars: '10', minBars: 2.7, cooldownBars: -1 } }).holding).toEqual({
+        maxBars: 10,
+        minBars: 2,
+        cooldownBars: undefined,
+      });
+      expect(normaliseDsl({ rules: [cross], holding: { maxBars: 0 } }).holding).toBeUndefined();
+    });
+  });
+});
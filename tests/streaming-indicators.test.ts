@@ -0,0 +1,75 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { computeIndicator, listIndicators, streamIndicator } from '../lib/indicator-registry';
+import { ADX, EMA, MACD, RSI, SMA, Stochastic } from '../lib/indicators';
+import { StreamingADX, StreamingEMA, StreamingMACD, StreamingRSI, StreamingSMA, StreamingStochastic } from '../lib/streaming-indicators';
+import type { Row } from '../types/row';
+
+// A deterministic random walk with a flat stretch, so flat-range and zero-loss branches are exercised.
+function randomBars(count: number): Row[] {
+  let seed = 7;
+  const random = () => ((seed = (seed * 16807) % 2147483647) - 1) / 2147483646;
+  let close = 100;
+  return Array.from({ length: count }, (_, i) => {
+    const flat = i >= 40 && i < 50;
+    const open = close;
+    close = flat ? close : close * (1 + (random() - 0.5) * 0.04);
+    const high = Math.max(open, close) + (flat ? 0 : random());
+    const low = Math.min(open, close) - (flat ? 0 : random());
+    const date = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+    return { ticker: 'RAND', date, timestamp: Date.parse(date), open, high, low, close, volume: flat ? 0 : Math.round(1000 * random()) };
+  });
+}
+
+const bars = randomBars(120);
+const closes = bars.map((b) => b.close);
+const highs = bars.map((b) => b.high);
+const lows = bars.map((b) => b.low);
+
+describe('Streaming indicators', () => {
+  it('match the batch functions bar for bar', () => {
+    const sma = new StreamingSMA(10);
+    const ema = new StreamingEMA(7);
+    const rsi = new StreamingRSI(5);
+    const macd = new StreamingMACD(5, 13, 4);
+    expect(closes.map((c) => sma.push(c))).toEqual(SMA(closes, 10));
+    expect(closes.map((c) => ema.push(c))).toEqual(EMA(closes, 7));
+    expect(closes.map((c) => rsi.push(c))).toEqual(RSI(closes, 5));
+    const batch = MACD(closes, 5, 13, 4);
+    const streamed = closes.map((c) => macd.push(c));
+    expect(streamed.map((v) => v.macd)).toEqual(batch.macd);
+    expect(streamed.map((v) => v.signal)).toEqual(batch.signal);
+    expect(streamed.map((v) => v.hist)).toEqual(batch.hist);
+  });
+
+  it('match the batch bar-based indicators', () => {
+    const stochastic = new StreamingStochastic(9, 3, 3);
+    const adx = new StreamingADX(6);
+    const streamedStochastic = bars.map((bar) => stochastic.push(bar));
+    const streamedAdx = bars.map((bar) => adx.push(bar));
+    const batchStochastic = Stochastic(highs, lows, closes, 9, 3, 3);
+    const batchAdx = ADX(highs, lows, closes, 6);
+    expect(streamedStochastic.map((v) => v.k)).toEqual(batchStochastic.k);
+    expect(streamedStochastic.map((v) => v.d)).toEqual(batchStochastic.d);
+    expect(streamedAdx.map((v) => v.adx)).toEqual(batchAdx.adx);
+    expect(streamedAdx.map((v) => v.plusDI)).toEqual(batchAdx.plusDI);
+    expect(streamedAdx.map((v) => v.minusDI)).toEqual(batchAdx.minusDI);
+  });
+
+  it('gives every registered indicator a streaming form that matches its batch form', () => {
+    for (const definition of listIndicators().filter((d) => d.stream)) {
+      const params = Object.fromEntries(Object.entries(definition.params).map(([name, spec]) => [name, spec.integer ? 5 : 1.5]));
+      const source = definition.inputs.includes('source') ? 'high' : 'close';
+      const batch = computeIndicator(bars, definition.name, params, source);
+      const next = streamIndicator(definition.name, params, source);
+      const streamed = bars.map((bar) => next(bar));
+      for (const output of definition.outputs) {
+        expect(streamed.map((values) => values[output]), `${definition.name}.${output}`).toEqual(batch[output]);
+      }
+    }
+  });
+
+  it('refuses unknown indicators', () => {
+    expect(() => streamIndicator('missing')).toThrow('Unknown indicator: missing');
+  });
+});
@@ -0,0 +1,67 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { runWalkForward, walkForwardWindows } from '../lib/walk-forward';
+import { normaliseDsl, runBacktest } from '../lib/strategy-engine';
+import { barsFromCloses } from './fixtures';
+
+const rows = barsFromCloses(
+  Array.from({ length: 100 }, (_, i) => 100 + 10 * Math.sin(i / 5) + i * 0.1),
+  { range: 1 },
+);
+
+describe('Walk-forward analysis', () => {
+  const rawDsl = {
+    name: 'SMA walk-forward',
+    rules: [{ type: 'sma_cross', params: { fast: [2, 4], slow: [8, 12] } }],
+  };
+
+  it('tiles rolling and anchored windows', () => {
+    expect(walkForwardWindows(10, { trainBars: 4, testBars: 3 })).toEqual([
+      { trainStart: 0, testStart: 4, testEnd: 7 },
+      { trainStart: 3, testStart: 7, testEnd: 10 },
+    ]);
+    expect(walkForwardWindows(10, { mode: 'anchored', trainBars: 4, testBars: 4 })).toEqual([
+      { trainStart: 0, testStart: 4, testEnd: 8 },
+      { trainStart: 0, testStart: 8, testEnd: 10 },
+    ]);
+  });
+
+  it('rejects window lengths that are not whole bars', () => {
+    expect(() => walkForwardWindows(10, { trainBars: 4.5, testBars: 3 })).toThrow('positive integers');
+    expect(() => walkForwardWindows(10, { trainBars: 4, testBars: 0 })).toThrow('positive integers');
+    expect(() => walkForwardWindows(10, { trainBars: 4, testBars: Number.NaN })).toThrow('positive integers');
+  });
+
+  it('stitches the out-of-sample windows into one curve', () => {
+    const result = runWalkForward(rawDsl, rows, { trainBars: 40, testBars: 20, objective: 'totalReturnPct' });
+
+    expect(result.windows).toHaveLength(3);
+    expect(result.dates).toEqual(rows.slice(40).map((r) => r.date));
+    expect(result.equity).toHaveLength(60);
+
+    const chained = result.windows.reduce((acc, w) => acc * (1 + w.outOfSample.totalReturnPct / 100), 1);
+    expect(result.equity.at(-1)).toBeCloseTo(chained, 10);
+    expect(result.stats.totalReturnPct).toBeCloseTo((chained - 1) * 100, 10);
+  });
+
+  it('runs each window with the parameters chosen in-sample', () => {
+    const result = runWalkForward(rawDsl, rows, { trainBars: 40, testBars: 20, objective: 'totalReturnPct' });
+    const first = result.windows[0];
+
+    const inSample = runBacktest(
+      normaliseDsl({ rules: [{ type: 'sma_cross', params: { fast: first.params['rules.0.params.fast'], slow: first.params['rules.0.params.slow'] } }] }),
+      rows.slice(0, 40),
+    );
+    expect(first.inSample.stats.totalReturnPct).toBeCloseTo(inSample.stats.totalReturnPct, 10);
+    expect(first).toMatchObject({ trainStart: rows[0].date, trainEnd: rows[39].date, testStart: rows[40].date, testEnd: rows[59].date });
+    result.trades.forEach((trade) => expect(trade.entryIdx).toBeGreaterThanOrEqual(0));
+  });
+
+  it('does not open positions during the warmup bars', () => {
+    const dsl = normaliseDsl({ rules: [{ type: 'sma_cross', params: { fast: 2, slow: 8 } }] });
+    const result = runBacktest(dsl, rows, { warmupBars: 50 });
+
+    expect(result.equity.slice(0, 50).every((v) => v === 1)).toBe(true);
+    result.trades.forEach((trade) => expect(trade.entryIdx).toBeGreaterThanOrEqual(50));
+  });
+});